@@ -0,0 +1,201 @@
+import Link from 'next/link';
+import { TIERS } from '@/lib/crosswalk/schema';
+import { explorerHref } from '@/lib/crosswalk/explorer-state';
+import type { FacetSelections } from '@/lib/crosswalk/facets';
+import type { CrosswalkStats, ValueCount } from '@/lib/crosswalk/stats';
+
+const TIER_COLORS: Record<string, string> = {
+  A: 'bg-green-500',
+  B: 'bg-blue-500',
+  C: 'bg-gray-400',
+};
+
+const TOP_SOURCES = 15;
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+// Explorer link filtered by one or more facet values
+const facetHref = (selection: Record<string, string>) =>
+  explorerHref({
+    facets: Object.fromEntries(
+      Object.entries(selection).map(([field, value]) => [field, { values: [value], mode: 'any' }])
+    ) as FacetSelections,
+  });
+
+function Card({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+      {subtitle && <p className="text-sm text-gray-500 mb-4">{subtitle}</p>}
+      {children}
+    </div>
+  );
+}
+
+function BarList({ items, field, color }: { items: ValueCount[]; field: string; color: string }) {
+  const max = Math.max(1, ...items.map(i => i.count));
+  return (
+    <ul className="space-y-1.5">
+      {items.map(({ value, count }) => (
+        <li key={value}>
+          <Link href={facetHref({ [field]: value })} className="group flex items-center text-sm">
+            <span className="w-48 truncate text-gray-700 group-hover:underline" title={value}>{value}</span>
+            <span className="flex-1 mx-2 h-3 bg-gray-100 rounded">
+              <span className={`block h-3 rounded ${color}`} style={{ width: `${(count / max) * 100}%` }} />
+            </span>
+            <span className="w-8 text-right font-mono text-xs text-gray-600">{count}</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function CoverageDashboard({ stats }: { stats: CrosswalkStats }) {
+  const maxGoal = Math.max(1, ...stats.tiersByGoal.map(g => g.total));
+
+  return (
+    <div className="space-y-8">
+      {/* Headline numbers */}
+      <div className="bg-white rounded-2xl shadow-lg p-8 border border-gray-100">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
+          <Link href="/explorer" className="text-center group">
+            <div className="text-3xl font-bold text-blue-600 mb-2">{stats.goals}</div>
+            <div className="text-gray-600 group-hover:underline">SDG Goals</div>
+          </Link>
+          <Link href="/explorer" className="text-center group">
+            <div className="text-3xl font-bold text-blue-400 mb-2">{stats.targets}</div>
+            <div className="text-gray-600 group-hover:underline">SDG Targets</div>
+          </Link>
+          <Link href="/explorer" className="text-center group">
+            <div className="text-3xl font-bold text-green-600 mb-2">{stats.indicators}</div>
+            <div className="text-gray-600 group-hover:underline">SDG Indicators</div>
+          </Link>
+          <div className="text-center">
+            <div className="text-3xl font-bold text-purple-600 mb-2">
+              {TIERS.map((tier, i) => (
+                <span key={tier}>
+                  {i > 0 && <span className="text-gray-300"> / </span>}
+                  <Link href={facetHref({ tier })} className="hover:underline" title={`Tier ${tier}`}>
+                    {stats.tiers[tier]}
+                  </Link>
+                </span>
+              ))}
+            </div>
+            <div className="text-gray-600">Tier A / B / C</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <Card title="Tiers per goal" subtitle="Indicators per goal by tier. Click a segment to open those records.">
+          <ul className="space-y-1.5">
+            {stats.tiersByGoal.map(g => (
+              <li key={g.goal} className="flex items-center text-sm">
+                <Link href={facetHref({ goal: g.goal })} className="w-16 text-gray-700 hover:underline">SDG {g.goal}</Link>
+                <span className="flex-1 mx-2 flex h-4">
+                  {TIERS.filter(t => g.tiers[t] > 0).map(tier => (
+                    <Link
+                      key={tier}
+                      href={facetHref({ goal: g.goal, tier })}
+                      className={`${TIER_COLORS[tier]} h-4 first:rounded-l last:rounded-r hover:opacity-80`}
+                      style={{ width: `${(g.tiers[tier] / maxGoal) * 100}%` }}
+                      title={`SDG ${g.goal}, tier ${tier}: ${g.tiers[tier]}`}
+                    />
+                  ))}
+                </span>
+                <span className="w-8 text-right font-mono text-xs text-gray-600">{g.total}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-4 mt-4 text-xs text-gray-600">
+            {TIERS.map(tier => (
+              <span key={tier} className="inline-flex items-center">
+                <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${TIER_COLORS[tier]}`} />
+                Tier {tier}
+              </span>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="LADM class coverage" subtitle="Share of indicators linking each class (ladmLink).">
+          <ul className="space-y-3">
+            {stats.ladmShare.map(({ cls, count, share }) => (
+              <li key={cls}>
+                <Link href={facetHref({ ladmLink: cls })} className="group block text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="font-mono text-gray-700 group-hover:underline">{cls}</span>
+                    <span className="text-gray-600">{count} · {pct(share)}</span>
+                  </div>
+                  <div className="h-3 bg-gray-100 rounded">
+                    <div className="h-3 rounded bg-green-500" style={{ width: pct(share) }} />
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </Card>
+
+        <Card title="Most-needed external data" subtitle={`Top ${TOP_SOURCES} of ${stats.externalData.length} externalData sources by indicator count.`}>
+          <BarList items={stats.externalData.slice(0, TOP_SOURCES)} field="externalData" color="bg-purple-500" />
+        </Card>
+
+        <Card title="Spatial join operations" subtitle={`How often each joins.spatial operation appears (${stats.spatialJoins.length} operations).`}>
+          {stats.spatialJoins.length > 0 ? (
+            <BarList items={stats.spatialJoins} field="joins.spatial" color="bg-emerald-500" />
+          ) : (
+            <p className="text-sm text-gray-500">No spatial joins recorded.</p>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Goal × LADM class" subtitle="Indicators per goal linking each class. Click a cell to open those records.">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-xs font-medium text-gray-500">Goal</th>
+                {stats.heatmap.classes.map(cls => (
+                  <th key={cls} className="px-2 py-1 text-xs font-mono font-medium text-gray-500">{cls}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.heatmap.goals.map(goal => {
+                const total = stats.tiersByGoal.find(g => g.goal === goal)?.total ?? 0;
+                return (
+                  <tr key={goal}>
+                    <td className="px-2 py-1 text-gray-700 whitespace-nowrap">SDG {goal}</td>
+                    {stats.heatmap.classes.map(cls => {
+                      const count = stats.heatmap.counts[goal]?.[cls] ?? 0;
+                      const intensity = total > 0 ? count / total : 0;
+                      return (
+                        <td key={cls} className="p-0.5">
+                          {count > 0 ? (
+                            <Link
+                              href={facetHref({ goal, ladmLink: cls })}
+                              className="block text-center rounded py-1 font-mono text-xs hover:ring-2 hover:ring-green-700"
+                              style={{
+                                background: `rgba(22, 163, 74, ${0.1 + 0.8 * intensity})`,
+                                color: intensity > 0.5 ? '#ffffff' : '#14532d',
+                              }}
+                              title={`SDG ${goal} · ${cls}: ${count} of ${total}`}
+                            >
+                              {count}
+                            </Link>
+                          ) : (
+                            <span className="block text-center rounded py-1 text-xs text-gray-300 bg-gray-50">0</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/crosswalk/api';
+import { findIndicator } from '@/lib/crosswalk/indicator';
+import { loadCrosswalk } from '@/lib/crosswalk/store';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/crosswalk/11.3.1 or /api/crosswalk/C110301
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+
+  let rows;
+  try {
+    rows = await loadCrosswalk();
+  } catch (e) {
+    console.error(e);
+    return jsonError(500, 'Crosswalk data could not be loaded');
+  }
+
+  const match = findIndicator(rows, code);
+  if (!match) return jsonError(404, `No indicator found for "${code}"`);
+
+  return NextResponse.json({ data: match.record, meta: { matchedBy: match.matchedBy, repeatedAs: match.repeatedAs } });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError, parseVersionParam, readJsonBody, rollbackSchema } from '@/lib/crosswalk/api';
+import { RevisionNotFoundError, rollbackToRevision, toMeta } from '@/lib/crosswalk/store';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/crosswalk/revisions/3/rollback { author, message? } — re-saves v3 as the newest revision
+export async function POST(request: NextRequest, { params }: { params: Promise<{ version: string }> }) {
+  const version = parseVersionParam((await params).version);
+  if (version === null || version === 'latest') return jsonError(400, 'Version must be a positive number');
+
+  const parsed = rollbackSchema.safeParse(await readJsonBody(request));
+  if (!parsed.success) {
+    return jsonError(400, 'Invalid rollback payload', parsed.error.issues.map(i => ({
+      param: i.path.join('.'),
+      message: i.message,
+    })));
+  }
+
+  try {
+    const revision = await rollbackToRevision(version, parsed.data.author, parsed.data.message);
+    return NextResponse.json({ data: toMeta(revision) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof RevisionNotFoundError) return jsonError(404, e.message);
+    console.error(e);
+    return jsonError(500, 'Rollback failed');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError, parseVersionParam } from '@/lib/crosswalk/api';
+import { getLatestRevision, getRevision, RevisionNotFoundError } from '@/lib/crosswalk/store';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/crosswalk/revisions/3 or /api/crosswalk/revisions/latest — full revision with records
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ version: string }> }) {
+  const version = parseVersionParam((await params).version);
+  if (version === null) return jsonError(400, 'Version must be a positive number or "latest"');
+
+  try {
+    const revision = version === 'latest' ? await getLatestRevision() : await getRevision(version);
+    return NextResponse.json({ data: revision });
+  } catch (e) {
+    if (e instanceof RevisionNotFoundError) return jsonError(404, e.message);
+    console.error(e);
+    return jsonError(500, 'Revision could not be read');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError, readJsonBody, saveRevisionSchema } from '@/lib/crosswalk/api';
+import { validateCrosswalk } from '@/lib/crosswalk/schema';
+import { listRevisions, saveRevision, toMeta } from '@/lib/crosswalk/store';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/crosswalk/revisions — revision history, newest first
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await listRevisions() });
+  } catch (e) {
+    console.error(e);
+    return jsonError(500, 'Revision history could not be read');
+  }
+}
+
+// POST /api/crosswalk/revisions { records, author, message } — saves a new numbered revision
+export async function POST(request: NextRequest) {
+  const parsed = saveRevisionSchema.safeParse(await readJsonBody(request));
+  if (!parsed.success) {
+    return jsonError(400, 'Invalid revision payload', parsed.error.issues.map(i => ({
+      param: i.path.join('.'),
+      message: i.message,
+    })));
+  }
+
+  const { records, author, message } = parsed.data;
+  const report = validateCrosswalk(records, 'revision');
+  if (report.issues.length > 0) {
+    return jsonError(422, 'Records failed crosswalk validation', report);
+  }
+
+  try {
+    const revision = await saveRevision({ records, author, message });
+    return NextResponse.json({ data: toMeta(revision) }, { status: 201 });
+  } catch (e) {
+    console.error(e);
+    return jsonError(500, 'Revision could not be saved');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError, listQuerySchema, searchParamsToObject } from '@/lib/crosswalk/api';
+import { collectKeys, fieldFiltersToRecordFilter, filterRecords } from '@/lib/crosswalk/filter';
+import { loadCrosswalk } from '@/lib/crosswalk/store';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/crosswalk?goal=11&tier=B&ladmLink=LA_RRR&spatialJoin=parcel_overlay&page=1&pageSize=50
+export async function GET(request: NextRequest) {
+  const parsed = listQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return jsonError(400, 'Invalid query parameters', parsed.error.issues.map(i => ({
+      param: i.path.join('.'),
+      message: i.message,
+    })));
+  }
+
+  let rows;
+  try {
+    rows = await loadCrosswalk();
+  } catch (e) {
+    console.error(e);
+    return jsonError(500, 'Crosswalk data could not be loaded');
+  }
+
+  const { q, page, pageSize, ...fields } = parsed.data;
+  const filtered = filterRecords(rows, collectKeys(rows), fieldFiltersToRecordFilter(fields, q));
+
+  const total = filtered.length;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const start = (page - 1) * pageSize;
+
+  return NextResponse.json({
+    data: filtered.slice(start, start + pageSize),
+    meta: { total, page, pageSize, pageCount, filters: { q: q ?? null, ...fields } },
+  });
+}
@@ -0,0 +1,91 @@
+'use client';
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  values: (number | null)[];
+  emphasis?: boolean;
+};
+
+type Props = {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  format: (value: number) => string;
+  marker?: number; // index of a highlighted x position, e.g. the epoch shown on the map
+  zeroLine?: number; // draw a reference line, e.g. ratio = 1
+};
+
+const W = 480;
+const H = 220;
+const PAD = { top: 12, right: 16, bottom: 28, left: 64 };
+
+// Small dependency-free line chart; null values break the line
+export default function LineChart({ title, labels, series, format, marker, zeroLine }: Props) {
+  const values = series.flatMap(s => s.values.filter((v): v is number => v !== null && Number.isFinite(v)));
+  if (zeroLine !== undefined) values.push(zeroLine);
+  let min = values.length > 0 ? Math.min(...values) : 0;
+  let max = values.length > 0 ? Math.max(...values) : 1;
+  if (min === max) {
+    min -= Math.abs(min) * 0.1 || 1;
+    max += Math.abs(max) * 0.1 || 1;
+  }
+
+  const x = (i: number) =>
+    PAD.left + (labels.length > 1 ? (i / (labels.length - 1)) * (W - PAD.left - PAD.right) : (W - PAD.left - PAD.right) / 2);
+  const y = (v: number) => PAD.top + (1 - (v - min) / (max - min)) * (H - PAD.top - PAD.bottom);
+  const ticks = [0, 0.5, 1].map(f => min + f * (max - min));
+
+  const path = (vals: (number | null)[]) =>
+    vals
+      .map((v, i) => (v === null || !Number.isFinite(v) ? null : `${x(i)},${y(v)}`))
+      .reduce<string[]>((segments, point, i, all) => {
+        if (point === null) return segments;
+        segments.push(`${i === 0 || all[i - 1] === null ? 'M' : 'L'}${point}`);
+        return segments;
+      }, [])
+      .join(' ');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label={title}>
+        {ticks.map(t => (
+          <g key={t}>
+            <line x1={PAD.left} x2={W - PAD.right} y1={y(t)} y2={y(t)} stroke="#f3f4f6" />
+            <text x={PAD.left - 6} y={y(t) + 4} fontSize={10} fill="#6b7280" textAnchor="end">{format(t)}</text>
+          </g>
+        ))}
+        {zeroLine !== undefined && (
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(zeroLine)} y2={y(zeroLine)} stroke="#9ca3af" strokeDasharray="4 3" />
+        )}
+        {marker !== undefined && marker >= 0 && marker < labels.length && (
+          <line x1={x(marker)} x2={x(marker)} y1={PAD.top} y2={H - PAD.bottom} stroke="#f59e0b" strokeWidth={2} opacity={0.6} />
+        )}
+        {labels.map((label, i) => (
+          <text key={label} x={x(i)} y={H - 8} fontSize={10} fill="#6b7280" textAnchor="middle">{label}</text>
+        ))}
+        {series.map(s => (
+          <g key={s.label}>
+            <path d={path(s.values)} fill="none" stroke={s.color} strokeWidth={s.emphasis ? 3 : 1.5} opacity={s.emphasis ? 1 : 0.7} />
+            {s.values.map((v, i) =>
+              v === null || !Number.isFinite(v) ? null : (
+                <circle key={i} cx={x(i)} cy={y(v)} r={s.emphasis ? 3.5 : 2.5} fill={s.color}>
+                  <title>{`${s.label}, ${labels[i]}: ${format(v)}`}</title>
+                </circle>
+              )
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-600">
+        {series.map(s => (
+          <span key={s.label} className="inline-flex items-center">
+            <span className="inline-block w-3 h-0.5 mr-1" style={{ background: s.color, height: s.emphasis ? 3 : 2 }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { AreaCollection } from '@/lib/sdg1131/units';
+import type { PopulationObservations } from '@/lib/sdg1131/series';
+import {
+  hasErrors,
+  parseAreaCollection,
+  parsePopulationTable,
+  validateInput,
+  yearFromFileName,
+  type AnalysisInput,
+  type Parsed,
+  type UploadIssue,
+} from '@/lib/sdg1131/upload';
+
+type Props = {
+  usingUpload: boolean;
+  onApply: (input: AnalysisInput, label: string) => void;
+  onReset: () => void;
+};
+
+type Loaded<T> = { name: string } & Parsed<T>;
+type BuiltUpFile = Loaded<AreaCollection> & { year: number | null };
+
+function DropZone({ label, hint, accept, multiple, onFiles }: {
+  label: string;
+  hint: string;
+  accept: string;
+  multiple?: boolean;
+  onFiles: (files: File[]) => void;
+}) {
+  const [over, setOver] = useState(false);
+  return (
+    <label
+      onDragOver={e => { e.preventDefault(); setOver(true); }}
+      onDragLeave={() => setOver(false)}
+      onDrop={e => {
+        e.preventDefault();
+        setOver(false);
+        onFiles(Array.from(e.dataTransfer.files));
+      }}
+      className={`block cursor-pointer rounded-lg border-2 border-dashed p-4 text-center transition-colors ${
+        over ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+      }`}
+    >
+      <span className="block text-sm font-medium text-gray-900">{label}</span>
+      <span className="block text-xs text-gray-500 mt-1">{hint}</span>
+      <input
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        className="hidden"
+        onChange={e => {
+          onFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+    </label>
+  );
+}
+
+// A file that cannot be read or parsed becomes an error on that file rather than a rejected promise
+async function readFile<T>(file: File, parse: (text: string) => Parsed<T>): Promise<Loaded<T>> {
+  try {
+    return { name: file.name, ...parse(await file.text()) };
+  } catch (e) {
+    const message = `Could not read the file: ${e instanceof Error ? e.message : String(e)}`;
+    return { name: file.name, value: null, issues: [{ level: 'error', file: file.name, message }] };
+  }
+}
+
+// Drag-and-drop inputs for the 11.3.1 analysis. Files are read and validated in the browser only.
+export default function UploadPanel({ usingUpload, onApply, onReset }: Props) {
+  const [admin, setAdmin] = useState<Loaded<AreaCollection> | null>(null);
+  const [builtUp, setBuiltUp] = useState<BuiltUpFile[]>([]);
+  const [population, setPopulation] = useState<Loaded<PopulationObservations> | null>(null);
+
+  const readAdmin = async ([file]: File[]) => {
+    if (!file) return;
+    setAdmin(await readFile(file, text => parseAreaCollection(text, file.name, 'admin')));
+  };
+
+  const readBuiltUp = async (files: File[]) => {
+    const loaded = await Promise.all(files.map(async file => ({
+      year: yearFromFileName(file.name),
+      ...(await readFile(file, text => parseAreaCollection(text, file.name, 'built-up'))),
+    })));
+    setBuiltUp(prev => [...prev.filter(p => !loaded.some(l => l.name === p.name)), ...loaded]);
+  };
+
+  const readPopulation = async ([file]: File[]) => {
+    if (!file) return;
+    setPopulation(await readFile(file, text => parsePopulationTable(text, file.name)));
+  };
+
+  const input = useMemo<AnalysisInput | null>(() => {
+    if (!admin?.value || !population?.value || builtUp.length === 0) return null;
+    if (builtUp.some(b => !b.value || b.year === null)) return null;
+    return {
+      admin: admin.value,
+      epochs: builtUp.map(b => ({ year: b.year!, builtUp: b.value! })).sort((a, b) => a.year - b.year),
+      populations: population.value,
+    };
+  }, [admin, builtUp, population]);
+
+  const issues = useMemo<UploadIssue[]>(() => [
+    ...(admin?.issues ?? []),
+    ...builtUp.flatMap(b => [
+      ...b.issues,
+      ...(b.year === null ? [{ level: 'error' as const, file: b.name, message: 'No year in the file name; enter it next to the file' }] : []),
+    ]),
+    ...(population?.issues ?? []),
+    ...(input ? validateInput(input, { admin: admin!.name, population: population!.name }) : []),
+  ], [admin, builtUp, population, input]);
+
+  const ready = input !== null && !hasErrors(issues);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Your Data</h2>
+          <p className="text-sm text-gray-600">
+            Drop your own layers to run the analysis on them. Files stay in the browser; nothing is uploaded to a server.
+          </p>
+        </div>
+        {usingUpload && (
+          <button
+            onClick={onReset}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+          >
+            Back to sample data
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 grid md:grid-cols-3 gap-4">
+        <div>
+          <DropZone
+            label="Admin units"
+            hint={`GeoJSON, WGS84, polygons with an "admin_code" and "name"`}
+            accept=".geojson,.json"
+            onFiles={readAdmin}
+          />
+          {admin && <p className="mt-2 text-xs text-gray-700 truncate" title={admin.name}>{admin.name} · {admin.value?.features.length ?? 0} units</p>}
+        </div>
+
+        <div>
+          <DropZone
+            label="Built-up layers"
+            hint="GeoJSON, one file per year, e.g. built_up_2020.geojson"
+            accept=".geojson,.json"
+            multiple
+            onFiles={readBuiltUp}
+          />
+          <ul className="mt-2 space-y-1">
+            {builtUp.map(b => (
+              <li key={b.name} className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="number"
+                  value={b.year ?? ''}
+                  placeholder="year"
+                  onChange={e => {
+                    const year = e.target.value === '' ? null : Number(e.target.value);
+                    setBuiltUp(prev => prev.map(p => (p.name === b.name ? { ...p, year } : p)));
+                  }}
+                  className="w-16 border border-gray-300 rounded px-1 py-0.5 font-mono"
+                  aria-label={`Year of ${b.name}`}
+                />
+                <span className="flex-1 truncate" title={b.name}>{b.name}</span>
+                <button
+                  onClick={() => setBuiltUp(prev => prev.filter(p => p.name !== b.name))}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <DropZone
+            label="Population"
+            hint="JSON like populations.json, or CSV: admin_code,year,population or admin_code,2000,2010,…"
+            accept=".json,.csv"
+            onFiles={readPopulation}
+          />
+          {population && (
+            <p className="mt-2 text-xs text-gray-700 truncate" title={population.name}>
+              {population.name} · {population.value?.units.length ?? 0} units
+            </p>
+          )}
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mx-6 mb-4 max-h-48 overflow-y-auto rounded-lg border border-gray-200 divide-y divide-gray-100 text-sm">
+          {issues.map((issue, i) => (
+            <li key={i} className={`px-3 py-1.5 ${issue.level === 'error' ? 'text-red-700 bg-red-50' : 'text-amber-800 bg-amber-50'}`}>
+              <span className="font-mono text-xs mr-2">{issue.file}</span>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="px-6 pb-6 flex items-center gap-3">
+        <button
+          disabled={!ready}
+          onClick={() => input && onApply(input, [admin!.name, ...builtUp.map(b => b.name), population!.name].join(', '))}
+          className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Run analysis
+        </button>
+        {!ready && (
+          <span className="text-xs text-gray-500">
+            {input === null ? 'Add admin units, at least two built-up layers and a population table.' : 'Fix the errors above first.'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,156 +5,450 @@ import Link from 'next/link';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import * as turf from '@turf/turf';
-import type { FeatureCollection } from 'geojson';
+import {
+  boundaryDiagnostic,
+  dissolveBuiltUp,
+  unitsWithResults,
+  type AreaCollection,
+  type BoundaryDiagnostic,
+  type BuiltUpLayer,
+  type UnitResult,
+} from '@/lib/sdg1131/units';
+import {
+  buildUnitSeries,
+  periodSeries,
+  spanResults,
+  spanStats,
+  totalSeries,
+  type EpochManifest,
+  type PopulationObservations,
+  type UnitSeries,
+} from '@/lib/sdg1131/series';
+import { sortIndexes, toggleSort, type SortSpec } from '@/lib/crosswalk/sort';
+import type { AnalysisInput } from '@/lib/sdg1131/upload';
+import { CHANGE_CLASSES, EXPANSION_CLASSES, LEI_RING_M, changeLayer, changeSummary, type ChangeClass } from '@/lib/sdg1131/change';
+import { interpretRatio } from '@/lib/sdg1131/rates';
+import { downloadFile } from '@/lib/download';
+import { CRS_PRESETS, geodesicArea, projError, projectedArea, utmProj } from '@/lib/area';
+import LineChart from './LineChart';
+import UploadPanel from './UploadPanel';
 
-type PopPayload = {
-  t: number;
-  t_n: number;
-  population_t: number;
-  population_tn: number;
-};
+// Choropleth classes on LCR / PGR; below 1 population grows faster than built-up land
+const RATIO_CLASSES: { min: number; color: string; label: string }[] = [
+  { min: -Infinity, color: '#2563eb', label: '< 0.5' },
+  { min: 0.5, color: '#93c5fd', label: '0.5 – 1' },
+  { min: 1, color: '#fdba74', label: '1 – 2' },
+  { min: 2, color: '#ef4444', label: '2 – 5' },
+  { min: 5, color: '#991b1b', label: '≥ 5' },
+];
+const NO_RATIO_COLOR = '#e5e7eb';
 
-type AreaStats = {
-  area_t_m2: number;
-  area_tn_m2: number;
-  years: number;
-  lcr: number | null;
-  pgr: number | null;
-  ratio: number | null; // LCR / PGR
-};
+const UNIT_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d', '#dc2626'];
+
+// Column labels take the years of the chosen span
+const unitColumns = (from: number, to: number): { key: keyof UnitResult; label: string; digits: number }[] => [
+  { key: 'name', label: 'Unit', digits: 0 },
+  { key: 'code', label: 'Code', digits: 0 },
+  { key: 'area_t_m2', label: `Built-up ${from} (m²)`, digits: 0 },
+  { key: 'area_tn_m2', label: `Built-up ${to} (m²)`, digits: 0 },
+  { key: 'population_t', label: `Pop. ${from}`, digits: 0 },
+  { key: 'population_tn', label: `Pop. ${to}`, digits: 0 },
+  { key: 'lcr', label: 'LCR', digits: 6 },
+  { key: 'pgr', label: 'PGR', digits: 6 },
+  { key: 'ratio', label: 'LCR / PGR', digits: 4 },
+  { key: 'per_capita_tn_m2', label: `m² / person ${to}`, digits: 1 },
+];
+
+const ratioColor = (ratio: number | null) =>
+  ratio === null ? NO_RATIO_COLOR : [...RATIO_CLASSES].reverse().find(c => ratio >= c.min)!.color;
 
 function fmt(n: number, maxFrac = 2) {
   return new Intl.NumberFormat('en-US', { maximumFractionDigits: maxFrac }).format(n);
 }
 
+const areaUnits = (m2: number) => `${fmt(m2, 0)} m² · ${fmt(m2 / 1e4, 2)} ha · ${fmt(m2 / 1e6, 3)} km²`;
+
+const SHARE_LABELS: Record<ChangeClass, string> = {
+  new: 'of total growth',
+  persistent: 'of persistent area',
+  lost: 'of total loss',
+};
+
+type EpochData = {
+  year: number;
+  builtUp: AreaCollection;
+  layer: BuiltUpLayer;
+  diagnostic: BoundaryDiagnostic;
+};
+
+const PLAY_INTERVAL_MS = 1200;
+
+// proj string for the selected area CRS, or null for geodesic areas
+function projFor(crs: string, custom: string, admin: AreaCollection): string | null {
+  if (crs === '') return null;
+  if (crs === 'custom') return custom;
+  const preset = CRS_PRESETS.find(p => p.id === crs);
+  if (preset?.proj !== 'utm') return preset?.proj ?? null;
+  const [lon, lat] = turf.centroid(admin).geometry.coordinates;
+  return utmProj(lon, lat);
+}
+
 export default function Demo1131Page() {
   const mapRef = useRef<maplibregl.Map | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
 
-  const [stats, setStats] = useState<AreaStats | null>(null);
-  const [meta, setMeta] = useState<PopPayload | null>(null);
+  const [admin, setAdmin] = useState<AreaCollection | null>(null);
+  const [epochs, setEpochs] = useState<EpochData[]>([]);
+  const [unitSeries, setUnitSeries] = useState<UnitSeries[]>([]);
+  const [span, setSpan] = useState<{ from: number; to: number } | null>(null);
+  const [mapEpoch, setMapEpoch] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [sort, setSort] = useState<SortSpec[]>([]);
+  const [selectedUnit, setSelectedUnit] = useState<string | null>(null);
+  const [mapReady, setMapReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mapMode, setMapMode] = useState<'epochs' | 'change'>('epochs');
+  const inputRef = useRef<AnalysisInput | null>(null);
+  const [areaCrs, setAreaCrs] = useState(''); // '': geodesic, a preset id or 'custom'
+  const [customProj, setCustomProj] = useState('');
+  const [areaProj, setAreaProj] = useState<string | null>(null); // proj string the results were measured in
+  const [uploadLabel, setUploadLabel] = useState<string | null>(null); // null: sample data
 
-  // Basit LCR/PGR hesapları (ln oran / yıl)
-  function computeRates(areaT: number, areaTN: number, pop: PopPayload): AreaStats {
-    const years = Math.max(1, pop.t_n - pop.t);
-    const lcr = areaT > 0 && areaTN > 0 ? Math.log(areaTN / areaT) / years : null;
-    const pgr = pop.population_t > 0 && pop.population_tn > 0 ? Math.log(pop.population_tn / pop.population_t) / years : null;
-    const ratio = lcr !== null && pgr !== null && pgr !== 0 ? lcr / pgr : null;
-    return { area_t_m2: areaT, area_tn_m2: areaTN, years, lcr, pgr, ratio };
-  }
+  // Örnek veri ya da yüklenen dosyalar aynı yoldan analiz edilir. Projeksiyon değişince
+  // aynı veri yeniden ölçülür ve görünüm (aralık, dönem, seçim) korunur.
+  const analyse = (input: AnalysisInput, crs: string, custom: string, resetView = true) => {
+    const { admin: adminFC, epochs: layers, populations } = input;
+    const proj = projFor(crs, custom, adminFC);
+    const area = proj ? projectedArea(proj) : geodesicArea;
+
+    // Örtüşen poligonlar bir kez sayılsın diye her dönem önce birleştirilir (dissolve)
+    const dissolved = [...layers]
+      .sort((a, b) => a.year - b.year)
+      .map(l => ({ ...l, layer: dissolveBuiltUp(l.builtUp, area) }));
+    const epochData = dissolved.map(l => ({
+      year: l.year,
+      builtUp: l.builtUp,
+      layer: l.layer,
+      diagnostic: boundaryDiagnostic(l.layer, adminFC, area),
+    }));
+
+    // Her idari birim için her dönemin yapılaşmış alanını sınıra kırp
+    setUnitSeries(buildUnitSeries(adminFC, dissolved, populations, { area }));
+    inputRef.current = input;
+    setAreaProj(proj);
+    setAdmin(adminFC);
+    setEpochs(epochData);
+    if (!resetView) return;
+    setSpan({ from: epochData[0].year, to: epochData[epochData.length - 1].year });
+    setMapEpoch(epochData.length - 1);
+    setPlaying(false);
+    setSelectedUnit(null);
+  };
+
+  const changeCrs = (crs: string, custom = customProj) => {
+    setAreaCrs(crs);
+    if (crs === 'custom' && projError(custom)) return;
+    if (inputRef.current) analyse(inputRef.current, crs, custom, false);
+  };
+
+  const loadSample = async () => {
+    try {
+      // Verileri çek: idari birimler, nüfus gözlemleri ve dönem listesi
+      const [adminFC, populations, manifest] = await Promise.all([
+        fetch('/data/admin_unit.geojson').then(r => r.json()),
+        fetch('/data/populations.json').then(r => r.json()),
+        fetch('/data/built_up_epochs.json').then(r => r.json()),
+      ]) as [AreaCollection, PopulationObservations, EpochManifest];
+
+      const layers = await Promise.all(
+        manifest.epochs.map(async e => ({ year: e.year, builtUp: (await fetch(`/data/${e.file}`).then(r => r.json())) as AreaCollection }))
+      );
+      analyse({ admin: adminFC, epochs: layers, populations }, areaCrs, customProj);
+      setUploadLabel(null);
+      setError(null);
+    } catch (e: unknown) {
+      console.error(e);
+      setError('Demo verisi yüklenirken sorun oluştu.');
+    }
+  };
+
+  const applyUpload = (input: AnalysisInput, label: string) => {
+    try {
+      analyse(input, areaCrs, customProj);
+      setUploadLabel(label);
+      setError(null);
+    } catch (e: unknown) {
+      console.error(e);
+      setError(`Yüklenen veri analiz edilemedi: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
 
   useEffect(() => {
-    (async () => {
-      try {
-        // Verileri çek
-        const [tRes, tnRes, adminRes, popRes] = await Promise.all([
-          fetch('/data/built_up_t.geojson'),
-          fetch('/data/built_up_tn.geojson'),
-          fetch('/data/admin_unit.geojson'),
-          fetch('/data/populations.json'),
-        ]);
-
-        const [tFC, tnFC, adminFC, pop] = await Promise.all([
-          tRes.json(),
-          tnRes.json(),
-          adminRes.json(),
-          popRes.json(),
-        ]);
-
-        setMeta(pop as PopPayload);
-
-        // Alan hesapla (m²) — FeatureCollection içindeki tüm poligonların toplamı
-        const sumArea = (fc: FeatureCollection) =>
-          fc.features.reduce((acc, f) => acc + turf.area(f), 0);
-
-        const areaT = sumArea(tFC);
-        const areaTN = sumArea(tnFC);
-        const statsObj = computeRates(areaT, areaTN, pop as PopPayload);
-        setStats(statsObj);
-
-        // Haritayı başlat
-        if (containerRef.current) {
-          const map = new maplibregl.Map({
-            container: containerRef.current,
-            style: 'https://demotiles.maplibre.org/style.json',
-            center: [29.03, 41.02],
-            zoom: 12,
-          });
-
-          mapRef.current = map;
-
-          map.on('load', () => {
-            // Admin sınırı
-            map.addSource('admin', { type: 'geojson', data: adminFC });
-            map.addLayer({
-              id: 'admin-line',
-              type: 'line',
-              source: 'admin',
-              paint: { 'line-color': '#000000', 'line-width': 1.5, 'line-dasharray': [2, 2] }
-            });
-
-            // Built-up t
-            map.addSource('built_t', { type: 'geojson', data: tFC });
-            map.addLayer({
-              id: 'built_t_fill',
-              type: 'fill',
-              source: 'built_t',
-              paint: { 'fill-color': '#1f77b4', 'fill-opacity': 0.35 }
-            });
-            map.addLayer({
-              id: 'built_t_line',
-              type: 'line',
-              source: 'built_t',
-              paint: { 'line-color': '#1f77b4', 'line-width': 1 }
-            });
-
-            // Built-up t+n
-            map.addSource('built_tn', { type: 'geojson', data: tnFC });
-            map.addLayer({
-              id: 'built_tn_fill',
-              type: 'fill',
-              source: 'built_tn',
-              paint: { 'fill-color': '#d62728', 'fill-opacity': 0.30 }
-            });
-            map.addLayer({
-              id: 'built_tn_line',
-              type: 'line',
-              source: 'built_tn',
-              paint: { 'line-color': '#d62728', 'line-width': 1 }
-            });
-
-            // Görünüm: admin bbox'a uydur
-            const bbox = turf.bbox(adminFC) as [number, number, number, number];
-            map.fitBounds([[bbox[0], bbox[1]], [bbox[2], bbox[3]]], { padding: 40, duration: 500 });
-          });
+    loadSample();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    // Haritayı başlat; kaynaklar veri yüklendikçe güncellenir
+    const map = new maplibregl.Map({
+      container: containerRef.current,
+      style: 'https://demotiles.maplibre.org/style.json',
+      center: [29.03, 41.02],
+      zoom: 12,
+    });
+
+    mapRef.current = map;
+
+    map.on('load', () => {
+      // Admin birimleri: LCR/PGR oranına göre koroplet (veri seçili aralıkla güncellenir)
+      map.addSource('admin', { type: 'geojson', data: turf.featureCollection([]) });
+      map.addLayer({
+        id: 'admin-fill',
+        type: 'fill',
+        source: 'admin',
+        paint: {
+          'fill-color': [
+            'case',
+            ['==', ['typeof', ['get', 'ratio']], 'number'],
+            [
+              'step',
+              ['get', 'ratio'],
+              RATIO_CLASSES[0].color,
+              ...RATIO_CLASSES.slice(1).flatMap(c => [c.min, c.color]),
+            ],
+            NO_RATIO_COLOR,
+          ] as maplibregl.ExpressionSpecification,
+          'fill-opacity': 0.45,
+        }
+      });
+      map.addLayer({
+        id: 'admin-line',
+        type: 'line',
+        source: 'admin',
+        paint: { 'line-color': '#000000', 'line-width': 1.5, 'line-dasharray': [2, 2] }
+      });
+      map.addLayer({
+        id: 'admin-selected',
+        type: 'line',
+        source: 'admin',
+        filter: ['==', ['get', 'code'], ''],
+        paint: { 'line-color': '#111827', 'line-width': 3 }
+      });
+      map.on('click', 'admin-fill', (e) => {
+        if (map.queryRenderedFeatures(e.point, { layers: ['change-fill'] }).length > 0) return;
+        const code = e.features?.[0]?.properties?.code;
+        if (code !== undefined) setSelectedUnit(String(code));
+      });
+      map.on('mouseenter', 'admin-fill', () => { map.getCanvas().style.cursor = 'pointer'; });
+      map.on('mouseleave', 'admin-fill', () => { map.getCanvas().style.cursor = ''; });
+
+      // Önceki dönem (çizgi) ve zaman kaydırıcısında seçili dönem (dolgu)
+      const empty = turf.featureCollection([]);
+      map.addSource('built_prev', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'built_prev_line',
+        type: 'line',
+        source: 'built_prev',
+        paint: { 'line-color': '#1f77b4', 'line-width': 1.5 }
+      });
+      map.addSource('built', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'built_fill',
+        type: 'fill',
+        source: 'built',
+        paint: { 'fill-color': '#d62728', 'fill-opacity': 0.30 }
+      });
+      map.addLayer({
+        id: 'built_line',
+        type: 'line',
+        source: 'built',
+        paint: { 'line-color': '#d62728', 'line-width': 1 }
+      });
+
+      // Sınır dışında kalan yapılaşmış alan (veri kalitesi)
+      map.addSource('outside', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'outside_line',
+        type: 'line',
+        source: 'outside',
+        paint: { 'line-color': '#f59e0b', 'line-width': 2.5, 'line-dasharray': [1, 1] }
+      });
+
+      // Değişim katmanı: yeni, kalıcı ve kaybolan yapılaşmış alan
+      map.addSource('change', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'change-fill',
+        type: 'fill',
+        source: 'change',
+        layout: { visibility: 'none' },
+        paint: {
+          'fill-color': [
+            'match',
+            ['get', 'change'],
+            ...CHANGE_CLASSES.flatMap(c => [c.key, c.color]),
+            '#000000',
+          ] as unknown as maplibregl.ExpressionSpecification,
+          'fill-opacity': 0.6,
         }
-      } catch (e: unknown) {
-        console.error(e);
-        setError('Demo verisi yüklenirken sorun oluştu.');
-      }
-    })();
+      });
+      map.addLayer({
+        id: 'change-line',
+        type: 'line',
+        source: 'change',
+        layout: { visibility: 'none' },
+        paint: { 'line-color': '#374151', 'line-width': 0.5 }
+      });
+      map.on('click', 'change-fill', (e) => {
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        const change = CHANGE_CLASSES.find(c => c.key === props.change);
+        new maplibregl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<strong>${change?.label ?? props.change}</strong> (${props.from}–${props.to})<br/>` +
+            `${areaUnits(props.area_m2)}<br/>` +
+            `${fmt(props.share * 100, 1)}% ${SHARE_LABELS[props.change as ChangeClass] ?? ''}` +
+            (props.expansion
+              ? `<br/>${EXPANSION_CLASSES.find(c => c.key === props.expansion)?.label} (LEI ${fmt(props.lei, 1)})`
+              : '')
+          )
+          .addTo(map);
+      });
+      map.on('mouseenter', 'change-fill', () => { map.getCanvas().style.cursor = 'pointer'; });
+      map.on('mouseleave', 'change-fill', () => { map.getCanvas().style.cursor = ''; });
+
+      setMapReady(true);
+    });
 
     return () => {
       // Unmount
-      if (mapRef.current) {
-        mapRef.current.remove();
-        mapRef.current = null;
-      }
+      map.remove();
+      mapRef.current = null;
     };
   }, []);
 
+  // Görünüm: admin bbox'a uydur
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !admin || admin.features.length === 0) return;
+    const bbox = turf.bbox(admin) as [number, number, number, number];
+    map.fitBounds([[bbox[0], bbox[1]], [bbox[2], bbox[3]]], { padding: 40, duration: 500 });
+  }, [admin, mapReady]);
+
+  const years = useMemo(() => epochs.map(e => e.year), [epochs]);
+  const total = useMemo(() => totalSeries(unitSeries), [unitSeries]);
+  const units = useMemo(() => (span ? spanResults(unitSeries, span.from, span.to) : []), [unitSeries, span]);
+  const stats = useMemo(() => (span ? spanStats(total, span.from, span.to) : null), [total, span]);
+
+  // Period charts follow the selected unit, otherwise the whole area
+  const focusSeries = unitSeries.find(u => u.code === selectedUnit) ?? total;
+  const periods = useMemo(() => periodSeries(focusSeries), [focusSeries]);
+
+  // Koroplet seçili aralığın oranlarını gösterir
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !admin) return;
+    (map.getSource('admin') as maplibregl.GeoJSONSource).setData(unitsWithResults(admin, units));
+  }, [admin, units, mapReady]);
+
+  // Zaman kaydırıcısı: seçili dönemin yapılaşmış alanı, önceki dönem ve sınır dışı kısım
+  useEffect(() => {
+    const map = mapRef.current;
+    const epoch = epochs[mapEpoch];
+    if (!map || !mapReady || !epoch) return;
+    (map.getSource('built') as maplibregl.GeoJSONSource).setData(epoch.builtUp);
+    (map.getSource('built_prev') as maplibregl.GeoJSONSource).setData(
+      epochs[mapEpoch - 1]?.builtUp ?? turf.featureCollection([])
+    );
+    (map.getSource('outside') as maplibregl.GeoJSONSource).setData(
+      turf.featureCollection(epoch.diagnostic.outside ? [epoch.diagnostic.outside] : [])
+    );
+  }, [epochs, mapEpoch, mapReady]);
+
+  // Seçili aralık için değişim sınıfları
+  const change = useMemo(() => {
+    const from = epochs.find(e => e.year === span?.from);
+    const to = epochs.find(e => e.year === span?.to);
+    const area = areaProj ? projectedArea(areaProj) : geodesicArea;
+    return from && to ? changeLayer(from.layer, to.layer, { from: from.year, to: to.year }, area) : null;
+  }, [epochs, span, areaProj]);
+
+  // Geodesic and projected areas side by side, so the projection can be audited
+  const areaAudit = useMemo(() => {
+    if (!areaProj || !admin) return [];
+    const projected = projectedArea(areaProj);
+    return [
+      ...epochs.map(e => ({
+        label: `Built-up ${e.year} (dissolved)`,
+        geodesic: e.layer.geometry ? geodesicArea(e.layer.geometry) : 0,
+        projected: e.layer.dissolved_m2,
+      })),
+      ...admin.features.map((f, i) => ({
+        label: `Unit ${unitSeries[i]?.name ?? i + 1}`,
+        geodesic: geodesicArea(f),
+        projected: projected(f),
+      })),
+    ];
+  }, [areaProj, admin, epochs, unitSeries]);
+  const changeAreas = useMemo(() => (change ? changeSummary(change) : null), [change]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    (map.getSource('change') as maplibregl.GeoJSONSource).setData(change ?? turf.featureCollection([]));
+    const show = (layers: string[], visible: boolean) =>
+      layers.forEach(id => map.setLayoutProperty(id, 'visibility', visible ? 'visible' : 'none'));
+    show(['change-fill', 'change-line'], mapMode === 'change');
+    show(['built_prev_line', 'built_fill', 'built_line'], mapMode === 'epochs');
+  }, [change, mapMode, mapReady]);
+
+  useEffect(() => {
+    if (!playing || epochs.length === 0) return;
+    const timer = setInterval(() => setMapEpoch(i => (i + 1) % epochs.length), PLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, epochs.length]);
+
+  // Seçili birimi haritada vurgula ve yakınlaş
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    map.setFilter('admin-selected', ['==', ['get', 'code'], selectedUnit ?? '']);
+    const index = unitSeries.findIndex(u => u.code === selectedUnit);
+    const feature = admin?.features[index];
+    if (feature) {
+      const bbox = turf.bbox(feature) as [number, number, number, number];
+      map.fitBounds([[bbox[0], bbox[1]], [bbox[2], bbox[3]]], { padding: 80, duration: 500 });
+    }
+  }, [selectedUnit, mapReady, unitSeries, admin]);
+
+  const sortedUnits = useMemo(
+    () => sortIndexes(units, units.map((_, i) => i), sort).map(i => units[i]),
+    [units, sort]
+  );
+
   const metrics = useMemo(() => {
-    if (!stats || !meta) return null;
+    if (!stats) return null;
     return [
-      { label: `Built‑up area @ t (${meta.t})`, value: `${fmt(stats.area_t_m2, 0)} m²` },
-      { label: `Built‑up area @ t+n (${meta.t_n})`, value: `${fmt(stats.area_tn_m2, 0)} m²` },
+      { label: `Built‑up area @ ${stats.from}`, value: `${fmt(stats.area_t_m2, 0)} m²` },
+      { label: `Built‑up area @ ${stats.to}`, value: `${fmt(stats.area_tn_m2, 0)} m²` },
       { label: `Years (n)`, value: `${stats.years}` },
       { label: `LCR (yr⁻¹)`, value: stats.lcr !== null ? fmt(stats.lcr, 6) : '—' },
       { label: `PGR (yr⁻¹)`, value: stats.pgr !== null ? fmt(stats.pgr, 6) : '—' },
       { label: `LCR / PGR`, value: stats.ratio !== null ? fmt(stats.ratio, 4) : '—' }
     ];
-  }, [stats, meta]);
+  }, [stats]);
+
+  const unitLines = (pick: (u: UnitSeries) => (number | null)[]) =>
+    unitSeries.map((u, i) => ({
+      label: u.name,
+      color: UNIT_COLORS[i % UNIT_COLORS.length],
+      values: pick(u),
+      emphasis: u.code === selectedUnit,
+    }));
+  const periodLabels = periods.map(p => `${p.from}–${String(p.to).slice(-2)}`);
+  const columns = span ? unitColumns(span.from, span.to) : [];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -195,12 +489,91 @@ export default function Demo1131Page() {
           
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <p className="text-blue-800">
-              This demo analyzes <strong>built-up</strong> area change (t→t+n) using synthetic data and 
-              computes the <strong>LCR / PGR</strong> ratios. Maps and metrics are updated in real time.<br />
+              This demo analyzes <strong>built-up</strong> area change over {years.length || 'several'} epochs using{' '}
+              {uploadLabel ? <>your uploaded data (<span className="font-mono text-sm">{uploadLabel}</span>)</> : 'synthetic data'} and
+              computes the <strong>LCR / PGR</strong> ratios per period and for any chosen span. Maps and metrics are updated in real time.<br />
             </p>
           </div>
         </div>
 
+        {/* Uploads */}
+        <div className="mb-8">
+          <UploadPanel usingUpload={uploadLabel !== null} onApply={applyUpload} onReset={loadSample} />
+        </div>
+
+        {/* Area CRS */}
+        <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Area Measurement</h2>
+            <p className="text-sm text-gray-600">
+              Areas are geodesic by default. Pick a projected CRS to measure every area in it instead, e.g. for national reporting.
+            </p>
+          </div>
+          <div className="px-6 py-4 flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={areaCrs}
+              onChange={e => changeCrs(e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+            >
+              <option value="">Geodesic (spherical, turf)</option>
+              {CRS_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              <option value="custom">Custom proj string…</option>
+            </select>
+            {areaCrs === 'custom' && (
+              <>
+                <input
+                  value={customProj}
+                  onChange={e => setCustomProj(e.target.value)}
+                  placeholder="+proj=laea +lat_0=52 +lon_0=10 +ellps=GRS80 +units=m"
+                  className="flex-1 min-w-[20rem] border border-gray-300 rounded-md px-2 py-1 font-mono text-xs"
+                />
+                <button
+                  onClick={() => changeCrs('custom', customProj)}
+                  disabled={projError(customProj) !== null}
+                  className="px-3 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 disabled:text-gray-400"
+                >
+                  Apply
+                </button>
+              </>
+            )}
+          </div>
+          {areaCrs === 'custom' && customProj !== '' && projError(customProj) && (
+            <p className="px-6 pb-3 text-sm text-red-700">{projError(customProj)}</p>
+          )}
+          {areaProj && (
+            <div className="px-6 pb-4">
+              <p className="text-xs text-gray-500 mb-2">
+                Measured in <span className="font-mono">{areaProj}</span>. Conformal projections such as UTM or TM are not equal-area;
+                their areas differ from the geodesic ones by the scale factor.
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="py-1 text-left font-medium">Geometry</th>
+                    <th className="py-1 text-right font-medium">Geodesic (m²)</th>
+                    <th className="py-1 text-right font-medium">Projected (m²)</th>
+                    <th className="py-1 text-right font-medium">Difference (m²)</th>
+                    <th className="py-1 text-right font-medium">Difference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {areaAudit.map(row => (
+                    <tr key={row.label}>
+                      <td className="py-1 text-gray-700">{row.label}</td>
+                      <td className="py-1 font-mono text-right">{fmt(row.geodesic, 0)}</td>
+                      <td className="py-1 font-mono text-right">{fmt(row.projected, 0)}</td>
+                      <td className="py-1 font-mono text-right">{fmt(row.projected - row.geodesic, 0)}</td>
+                      <td className="py-1 font-mono text-right">
+                        {row.geodesic > 0 ? `${fmt(((row.projected - row.geodesic) / row.geodesic) * 100, 3)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
         {/* Error State */}
         {error && (
           <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
@@ -218,19 +591,185 @@ export default function Demo1131Page() {
           <div className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
             <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
               <h2 className="text-lg font-semibold text-gray-900">Interactive Map</h2>
-              <p className="text-sm text-gray-600">Built-up areas and administrative boundaries</p>
+              <p className="text-sm text-gray-600">
+                {mapMode === 'epochs'
+                  ? 'Built-up area at the selected epoch (red), the previous epoch (blue outline)'
+                  : `Built-up change between ${span?.from} and ${span?.to}; click a polygon for its area`}
+                {' '}and administrative units shaded by LCR / PGR for {span ? `${span.from}–${span.to}` : 'the chosen span'}
+              </p>
             </div>
+            {years.length > 0 && (
+              <div className="px-6 py-3 border-b border-gray-200 flex items-center gap-4 text-sm">
+                <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                  {(['epochs', 'change'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => { setPlaying(false); setMapMode(mode); }}
+                      className={`px-3 py-1 ${mapMode === mode ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {mode === 'epochs' ? 'Epochs' : `Change ${span?.from}–${span?.to}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {years.length > 0 && mapMode === 'epochs' && (
+              <div className="px-6 py-3 border-b border-gray-200 flex items-center gap-4 text-sm">
+                <button
+                  onClick={() => setPlaying(p => !p)}
+                  className="px-3 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+                >
+                  {playing ? 'Pause' : 'Play'}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={years.length - 1}
+                  step={1}
+                  value={mapEpoch}
+                  onChange={e => { setPlaying(false); setMapEpoch(Number(e.target.value)); }}
+                  className="flex-1"
+                  aria-label="Epoch shown on the map"
+                />
+                <span className="font-mono font-semibold text-gray-900 w-12 text-right">{years[mapEpoch]}</span>
+              </div>
+            )}
             <div 
               ref={containerRef} 
               className="w-full"
               style={{ height: '500px' }}
             />
+            <div className="px-6 py-3 border-t border-gray-200 flex flex-wrap items-center gap-4 text-xs text-gray-600">
+              <span className="font-medium">LCR / PGR</span>
+              {RATIO_CLASSES.map(c => (
+                <span key={c.label} className="inline-flex items-center">
+                  <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ background: c.color }} />
+                  {c.label}
+                </span>
+              ))}
+              <span className="inline-flex items-center">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ background: NO_RATIO_COLOR }} />
+                no ratio
+              </span>
+            </div>
+            {mapMode === 'change' && change && changeAreas && (
+              <div className="px-6 py-3 border-t border-gray-200 flex flex-wrap items-start justify-between gap-4 text-sm">
+                <table className="text-sm">
+                  <tbody>
+                    {CHANGE_CLASSES.map(c => (
+                      <tr key={c.key}>
+                        <td className="pr-4 py-0.5">
+                          <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ background: c.color, opacity: 0.6 }} />
+                          {c.label}
+                        </td>
+                        <td className="pr-4 py-0.5 font-mono text-right">{fmt(changeAreas[c.key], 0)} m²</td>
+                        <td className="pr-4 py-0.5 font-mono text-right">{fmt(changeAreas[c.key] / 1e4, 2)} ha</td>
+                        <td className="py-0.5 font-mono text-right">{fmt(changeAreas[c.key] / 1e6, 3)} km²</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <button
+                  onClick={() => downloadFile(
+                    `built_up_change_${span?.from}_${span?.to}.geojson`,
+                    JSON.stringify(change, null, 2),
+                    'application/geo+json'
+                  )}
+                  className="px-3 py-1.5 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+                >
+                  Download GeoJSON
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Per-unit results */}
+        <div className="mb-8">
+          <div className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
+            <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Admin Units ({units.length})</h2>
+              <p className="text-sm text-gray-600">Built-up area is clipped to each unit. Click a header to sort (shift-click for a secondary sort), a row to show the unit on the map.</p>
+              {span && (
+                <div className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+                  <span>Span</span>
+                  <select
+                    value={span.from}
+                    onChange={e => setSpan(s => s && { ...s, from: Number(e.target.value) })}
+                    className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+                  >
+                    {years.filter(y => y < span.to).map(y => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                  <span>→</span>
+                  <select
+                    value={span.to}
+                    onChange={e => setSpan(s => s && { ...s, to: Number(e.target.value) })}
+                    className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+                  >
+                    {years.filter(y => y > span.from).map(y => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                </div>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {columns.map(col => {
+                      const spec = sort.find(s => s.key === col.key);
+                      return (
+                        <th key={col.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <button
+                            onClick={(e) => setSort(prev => toggleSort(prev, col.key, e.shiftKey))}
+                            className="inline-flex items-center hover:text-gray-700"
+                          >
+                            {col.label}
+                            {spec && <span className="ml-1">{spec.dir === 'asc' ? '▲' : '▼'}</span>}
+                          </button>
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {sortedUnits.map(u => (
+                    <tr
+                      key={u.code}
+                      onClick={() => setSelectedUnit(current => (current === u.code ? null : u.code))}
+                      className={`cursor-pointer ${selectedUnit === u.code ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    >
+                      {columns.map(col => {
+                        const value = u[col.key];
+                        return (
+                          <td
+                            key={col.key}
+                            className={`px-4 py-2 whitespace-nowrap ${col.digits > 0 || typeof value === 'number' ? 'font-mono text-right' : ''}`}
+                            title={col.key === 'ratio' ? interpretRatio(u).label : undefined}
+                          >
+                            {col.key === 'ratio' && (
+                              <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ background: ratioColor(u.ratio) }} />
+                            )}
+                            {value === null ? '—' : typeof value === 'number' ? fmt(value, col.digits) : value}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
         </div>
 
         {/* Metrics Grid */}
         <div className="mb-8">
-          <h2 className="text-xl font-semibold text-gray-900 mb-6">Analysis Results</h2>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Whole Area{span && ` (${span.from}–${span.to})`}</h2>
+          {stats && (
+            <p className="text-sm text-gray-700 mb-6">
+              <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ background: ratioColor(stats.ratio) }} />
+              <strong>{interpretRatio(stats).label}.</strong> {interpretRatio(stats).description}
+            </p>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
             {metrics?.map((m) => {
               const isRatio = m.label.includes('LCR / PGR');
@@ -286,6 +825,152 @@ export default function Demo1131Page() {
           </div>
         </div>
 
+        {/* Companion metrics */}
+        {stats && changeAreas && (
+          <div className="mb-8 grid md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Companion Metrics</h3>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {[
+                    { label: `Built-up per capita ${stats.from}`, value: stats.per_capita_t_m2, unit: 'm² / person', digits: 1 },
+                    { label: `Built-up per capita ${stats.to}`, value: stats.per_capita_tn_m2, unit: 'm² / person', digits: 1 },
+                    { label: 'Change in built-up per capita', value: stats.per_capita_change_m2, unit: 'm² / person', digits: 1, signed: true },
+                    { label: 'Change in built-up area', value: stats.area_change_m2 / 1e4, unit: 'ha', digits: 2, signed: true },
+                    { label: 'Change in population', value: stats.population_change, unit: 'people', digits: 0, signed: true },
+                  ].map(row => (
+                    <tr key={row.label}>
+                      <td className="py-1.5 text-gray-600">{row.label}</td>
+                      <td className="py-1.5 font-mono text-right text-gray-900">
+                        {row.value === null ? '—' : `${row.signed && row.value > 0 ? '+' : ''}${fmt(row.value, row.digits)}`}
+                      </td>
+                      <td className="py-1.5 pl-2 text-xs text-gray-500">{row.unit}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">New Development by Type</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Each new built-up patch is classed by the share of a {LEI_RING_M} m ring around it that was already built up in {stats.from}
+                {' '}(landscape expansion index): ≥ 50% infill, above 0 extension, 0 leapfrog.
+              </p>
+              {changeAreas.new > 0 ? (
+                <>
+                  <div className="flex h-4 rounded overflow-hidden mb-3">
+                    {EXPANSION_CLASSES.map(c => (
+                      <span
+                        key={c.key}
+                        style={{ width: `${(changeAreas.expansion[c.key] / changeAreas.new) * 100}%`, background: c.color }}
+                        title={c.label}
+                      />
+                    ))}
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {EXPANSION_CLASSES.map(c => (
+                        <tr key={c.key}>
+                          <td className="py-0.5">
+                            <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ background: c.color }} />
+                            {c.label}
+                          </td>
+                          <td className="py-0.5 font-mono text-right">{fmt(changeAreas.expansion[c.key] / 1e4, 2)} ha</td>
+                          <td className="py-0.5 font-mono text-right w-16">
+                            {fmt((changeAreas.expansion[c.key] / changeAreas.new) * 100, 1)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">No new built-up area in this span.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Time series */}
+        {years.length > 1 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Time Series</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Per-period rates are for {selectedUnit ? focusSeries.name : 'the whole area'}; select a unit in the table or on the map to switch.
+            </p>
+            <div className="grid lg:grid-cols-2 gap-6">
+              <LineChart
+                title="Built-up area (km²)"
+                labels={years.map(String)}
+                series={unitLines(u => u.areas.map(a => a / 1e6))}
+                format={v => fmt(v, 2)}
+                marker={mapEpoch}
+              />
+              <LineChart
+                title="Population"
+                labels={years.map(String)}
+                series={unitLines(u => u.population)}
+                format={v => fmt(v, 0)}
+                marker={mapEpoch}
+              />
+              <LineChart
+                title={`LCR and PGR per period (yr⁻¹) · ${focusSeries.name}`}
+                labels={periodLabels}
+                series={[
+                  { label: 'LCR', color: '#d62728', values: periods.map(p => p.lcr) },
+                  { label: 'PGR', color: '#1f77b4', values: periods.map(p => p.pgr) },
+                ]}
+                format={v => fmt(v, 4)}
+                zeroLine={0}
+              />
+              <LineChart
+                title={`LCR / PGR per period · ${focusSeries.name}`}
+                labels={periodLabels}
+                series={[{ label: 'LCR / PGR', color: '#7c3aed', values: periods.map(p => p.ratio), emphasis: true }]}
+                format={v => fmt(v, 2)}
+                zeroLine={1}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Data quality */}
+        {epochs.length > 0 && (
+          <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Built-up Data Quality</h2>
+              <p className="text-sm text-gray-600">
+                Overlapping polygons are dissolved before measuring. Area outside the admin units (dashed orange on the map) is not counted.
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Epoch', 'Input sum (m²)', 'Overlap (m²)', 'Dissolved (m²)', 'Inside units (m²)', 'Outside (m²)', 'Outside share'].map(h => (
+                    <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {epochs.map(({ year, diagnostic: d }, i) => (
+                  <tr key={year} className={i === mapEpoch ? 'bg-amber-50' : ''}>
+                    <td className="px-4 py-2">{year}</td>
+                    <td className="px-4 py-2 font-mono text-right">{fmt(d.raw_m2, 0)}</td>
+                    <td className={`px-4 py-2 font-mono text-right ${d.overlap_m2 > 0 ? 'text-amber-700' : ''}`}>{fmt(d.overlap_m2, 0)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{fmt(d.dissolved_m2, 0)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{fmt(d.inside_m2, 0)}</td>
+                    <td className={`px-4 py-2 font-mono text-right ${d.outside_m2 > 0 ? 'text-amber-700' : ''}`}>{fmt(d.outside_m2, 0)}</td>
+                    <td className="px-4 py-2 font-mono text-right">
+                      {d.dissolved_m2 > 0 ? `${fmt((d.outside_m2 / d.dissolved_m2) * 100, 1)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Information Cards */}
         <div className="grid md:grid-cols-2 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -293,7 +978,8 @@ export default function Demo1131Page() {
             <div className="text-sm text-gray-600 space-y-2">
               <p><strong>LCR:</strong> ln(Urb<sub>t+n</sub>/Urb<sub>t</sub>)/n</p>
               <p><strong>PGR:</strong> ln(Pop<sub>t+n</sub>/Pop<sub>t</sub>)/n</p>
-              <p className="text-amber-600 font-medium">⚠️ Veriler sentetiktir ve demo amaçlıdır.</p>
+              <p>Population between two observations is interpolated log-linearly (constant growth rate); epochs outside the observed years have no population.</p>
+              {uploadLabel === null && <p className="text-amber-600 font-medium">⚠️ Veriler sentetiktir ve demo amaçlıdır.</p>}
             </div>
           </div>
           
@@ -302,7 +988,7 @@ export default function Demo1131Page() {
             <div className="text-sm text-gray-600">
               <p>© OpenStreetMap contributors</p>
               <p>Style: MapLibre demo tiles</p>
-              <p>Built-up data: Synthetic GeoJSON</p>
+              <p>Built-up data: {uploadLabel === null ? 'Synthetic GeoJSON' : 'Uploaded GeoJSON'}</p>
             </div>
           </div>
         </div>
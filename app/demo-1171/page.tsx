@@ -0,0 +1,501 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import maplibregl from 'maplibre-gl';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import * as turf from '@turf/turf';
+import type { FeatureCollection, Polygon } from 'geojson';
+import { dissolveBuiltUp, type AreaCollection } from '@/lib/sdg1131/units';
+import type { EpochManifest } from '@/lib/sdg1131/series';
+import type { LadmRegister } from '@/lib/ladm/model';
+import { validateRegister } from '@/lib/ladm/validate';
+import { WALKING_DISTANCE_M } from '@/lib/sdg1171/definition';
+import {
+  PUBLIC_ACCESS,
+  analyseOpenSpace,
+  midYear,
+  publicSpaceParcels,
+  servedCells,
+  walkingArea,
+  type OpenSpaceResult,
+} from '@/lib/sdg1171/public-space';
+
+type MapMode = 'open' | 'access';
+
+type ShareClass = { min: number; color: string; label: string };
+
+// Koroplet sınıfları (%), harita moduna göre
+const SHARE_CLASSES: Record<MapMode, ShareClass[]> = {
+  open: [
+    { min: -Infinity, color: '#f7fcf5', label: '< 2%' },
+    { min: 2, color: '#c7e9c0', label: '2 – 5%' },
+    { min: 5, color: '#74c476', label: '5 – 10%' },
+    { min: 10, color: '#238b45', label: '≥ 10%' },
+  ],
+  access: [
+    { min: -Infinity, color: '#fee2e2', label: '< 25%' },
+    { min: 25, color: '#fde68a', label: '25 – 50%' },
+    { min: 50, color: '#a7f3d0', label: '50 – 75%' },
+    { min: 75, color: '#10b981', label: '≥ 75%' },
+  ],
+};
+const NO_SHARE_COLOR = '#e5e7eb';
+
+const MODE_LABELS: Record<MapMode, string> = {
+  open: 'Open public space share',
+  access: `Population within ${WALKING_DISTANCE_M} m`,
+};
+
+const SERVED_COLOR = '#16a34a';
+const UNSERVED_COLOR = '#f97316';
+
+const shareColor = (mode: MapMode): maplibregl.ExpressionSpecification =>
+  [
+    'case',
+    ['==', ['typeof', ['get', 'share']], 'number'],
+    ['step', ['get', 'share'], SHARE_CLASSES[mode][0].color, ...SHARE_CLASSES[mode].slice(1).flatMap(c => [c.min, c.color])],
+    NO_SHARE_COLOR,
+  ] as maplibregl.ExpressionSpecification;
+
+function fmt(n: number | null, maxFrac = 2) {
+  return n === null ? '—' : new Intl.NumberFormat('en-US', { maximumFractionDigits: maxFrac }).format(n);
+}
+
+const ha = (m2: number | null) => fmt(m2 === null ? null : m2 / 10_000, 1);
+const pct = (share: number | null) => (share === null ? '—' : `${fmt(share, 1)}%`);
+
+type LoadedData = {
+  admin: AreaCollection;
+  register: LadmRegister;
+  grid: FeatureCollection<Polygon>;
+  epochs: { year: number; builtUp: AreaCollection }[];
+};
+
+export default function Demo1171Page() {
+  const mapRef = useRef<maplibregl.Map | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const [data, setData] = useState<LoadedData | null>(null);
+  const [year, setYear] = useState<number | null>(null);
+  const [mode, setMode] = useState<MapMode>('open');
+  const [mapReady, setMapReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const [adminFC, registerData, grid, manifest] = await Promise.all([
+        fetch('/data/admin_unit.geojson').then(r => r.json()),
+        fetch('/data/ladm_register.json').then(r => r.json()),
+        fetch('/data/population_grid_2025.geojson').then(r => r.json()),
+        fetch('/data/built_up_epochs.json').then(r => r.json()) as Promise<EpochManifest>,
+      ]);
+      const report = validateRegister(registerData);
+      if (!report.register) throw new Error(`The LADM register could not be read (${report.issues.length} issues).`);
+      const epochs = await Promise.all(
+        manifest.epochs.map(async e => ({ year: e.year, builtUp: (await fetch(`/data/${e.file}`).then(r => r.json())) as AreaCollection }))
+      );
+      setData({ admin: adminFC as AreaCollection, register: report.register, grid, epochs });
+      setYear(Math.max(...epochs.map(e => e.year)));
+    })().catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Yalnızca seçili dönemin yapılaşmış alanı birleştirilir
+  const analysis = useMemo(() => {
+    const epoch = data?.epochs.find(e => e.year === year);
+    if (!data || !epoch || year === null) return null;
+    const builtUp = dissolveBuiltUp(epoch.builtUp);
+    const parcels = publicSpaceParcels(data.register, { valid: midYear(year) });
+    const walking = walkingArea(parcels);
+    return {
+      builtUp,
+      parcels,
+      walking,
+      cells: servedCells(data.grid, walking),
+      ...analyseOpenSpace(data.admin, builtUp, parcels, data.grid, year),
+    };
+  }, [data, year]);
+
+  const accessCounts = useMemo(() => {
+    const counts = Object.fromEntries(PUBLIC_ACCESS.map(a => [a.key, 0])) as Record<string, number>;
+    analysis?.parcels.features.forEach(f => { counts[f.properties?.access] += 1; });
+    return counts;
+  }, [analysis]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = new maplibregl.Map({
+      container: containerRef.current,
+      style: 'https://demotiles.maplibre.org/style.json',
+      center: [29.03, 41.02],
+      zoom: 12,
+    });
+
+    mapRef.current = map;
+
+    map.on('load', () => {
+      const empty = turf.featureCollection([]);
+
+      // Admin birimleri: seçili moddaki paya göre koroplet
+      map.addSource('admin', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'admin-fill',
+        type: 'fill',
+        source: 'admin',
+        paint: { 'fill-color': shareColor('open'), 'fill-opacity': 0.45 }
+      });
+      map.addLayer({
+        id: 'admin-line',
+        type: 'line',
+        source: 'admin',
+        paint: { 'line-color': '#000000', 'line-width': 1.5, 'line-dasharray': [2, 2] }
+      });
+
+      map.addSource('built', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'built-line',
+        type: 'line',
+        source: 'built',
+        paint: { 'line-color': '#d62728', 'line-width': 1 }
+      });
+
+      // Nüfus grid hücreleri: yürüme mesafesi içinde / dışında (erişim modu)
+      map.addSource('grid', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'grid-fill',
+        type: 'fill',
+        source: 'grid',
+        layout: { visibility: 'none' },
+        paint: {
+          'fill-color': ['case', ['get', 'served'], SERVED_COLOR, UNSERVED_COLOR] as maplibregl.ExpressionSpecification,
+          'fill-opacity': 0.35,
+        }
+      });
+
+      map.addSource('walking', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'walking-line',
+        type: 'line',
+        source: 'walking',
+        layout: { visibility: 'none' },
+        paint: { 'line-color': '#065f46', 'line-width': 1.5, 'line-dasharray': [1, 1] }
+      });
+
+      // Parseller: kamu erişim hakkı / geçiş kısıtlaması / erişimsiz kamu arazisi
+      map.addSource('parcels', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'parcels-fill',
+        type: 'fill',
+        source: 'parcels',
+        paint: {
+          'fill-color': [
+            'match',
+            ['get', 'access'],
+            ...PUBLIC_ACCESS.flatMap(a => [a.key, a.color]),
+            '#9ca3af',
+          ] as unknown as maplibregl.ExpressionSpecification,
+          'fill-opacity': 0.8,
+        }
+      });
+      map.addLayer({
+        id: 'parcels-line',
+        type: 'line',
+        source: 'parcels',
+        paint: { 'line-color': '#374151', 'line-width': 0.75 }
+      });
+
+      map.on('click', 'parcels-fill', (e) => {
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        const access = PUBLIC_ACCESS.find(a => a.key === props.access);
+        new maplibregl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<strong>${props.label}</strong> (${props.landUse})<br/>` +
+            `${access?.label ?? props.access}` +
+            (props.description ? `<br/>${props.description}` : '')
+          )
+          .addTo(map);
+      });
+      map.on('mouseenter', 'parcels-fill', () => { map.getCanvas().style.cursor = 'pointer'; });
+      map.on('mouseleave', 'parcels-fill', () => { map.getCanvas().style.cursor = ''; });
+
+      setMapReady(true);
+    });
+
+    return () => {
+      // Unmount
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !data) return;
+    const [minX, minY, maxX, maxY] = turf.bbox(data.admin);
+    map.fitBounds([[minX, minY], [maxX, maxY]], { padding: 20, duration: 0 });
+  }, [mapReady, data]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !data || !analysis) return;
+    const share = (u: OpenSpaceResult) => (mode === 'open' ? u.openShare : u.accessShare);
+    (map.getSource('admin') as maplibregl.GeoJSONSource).setData(
+      turf.featureCollection(
+        data.admin.features.map((f, i) => ({ ...f, properties: { ...f.properties, share: share(analysis.units[i]) } }))
+      )
+    );
+    (map.getSource('built') as maplibregl.GeoJSONSource).setData(
+      turf.featureCollection(analysis.builtUp.geometry ? [analysis.builtUp.geometry] : [])
+    );
+    (map.getSource('parcels') as maplibregl.GeoJSONSource).setData(analysis.parcels);
+    (map.getSource('grid') as maplibregl.GeoJSONSource).setData(analysis.cells);
+    (map.getSource('walking') as maplibregl.GeoJSONSource).setData(
+      turf.featureCollection(analysis.walking.geometry ? [analysis.walking.geometry] : [])
+    );
+
+    map.setPaintProperty('admin-fill', 'fill-color', shareColor(mode));
+    const visibility = mode === 'access' ? 'visible' : 'none';
+    map.setLayoutProperty('grid-fill', 'visibility', visibility);
+    map.setLayoutProperty('walking-line', 'visibility', visibility);
+    map.setLayoutProperty('built-line', 'visibility', mode === 'open' ? 'visible' : 'none');
+  }, [mapReady, data, analysis, mode]);
+
+  const total = analysis?.total;
+  // Kayıt defteri bu tarihten önceki parselleri içermez
+  const registerStart = data?.register.spatialUnits.map(s => s.beginLifespanVersion).sort()[0];
+  const beforeRegister = year !== null && registerStart !== undefined && Date.parse(midYear(year)) < Date.parse(registerStart);
+  const years = data?.epochs.map(e => e.year) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Bar */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </Link>
+              <div className="text-sm text-gray-500">
+                <Link href="/" className="hover:text-gray-700">Home</Link>
+                <span className="mx-2">/</span>
+                <span className="text-gray-900 font-medium">SDG 11.7.1 Demo</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center mb-4">
+            <div className="w-12 h-12 bg-emerald-100 rounded-xl flex items-center justify-center mr-4">
+              <svg className="w-6 h-6 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">SDG 11.7.1 Analysis</h1>
+              <p className="text-lg text-gray-600">Open public space in the built-up area</p>
+            </div>
+          </div>
+
+          <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4">
+            <p className="text-emerald-800">
+              This demo reuses the 11.3.1 <strong>built-up layers</strong> and reads open public space from the synthetic
+              <strong> LADM</strong> register: parcels whose BAUnit carries a public-access right or a public-passage restriction.
+              It computes the share of the built-up area that is open public space and the share of population within
+              {` ${WALKING_DISTANCE_M}`} m of it, per admin unit.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center">
+              <svg className="w-5 h-5 text-red-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-red-800 font-medium">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex flex-wrap items-end gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="epoch">Built-up epoch</label>
+            <select
+              id="epoch"
+              value={year ?? ''}
+              onChange={e => setYear(Number(e.target.value))}
+              disabled={years.length === 0}
+              className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+            >
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Map</span>
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+              {(Object.keys(MODE_LABELS) as MapMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1.5 text-sm ${mode === m ? 'bg-emerald-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 max-w-md">
+            Rights and restrictions are read as valid on {year ? midYear(year).slice(0, 10) : 'mid-year'}, on the register as it stands now.
+            {beforeRegister && (
+              <span className="block text-amber-700 mt-1">
+                The register starts on {registerStart!.slice(0, 10)}; it has no parcels for this epoch, so both shares are zero.
+              </span>
+            )}
+          </p>
+        </div>
+
+        {/* Headline indicators */}
+        {total && (
+          <div className="mb-8 grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[
+              {
+                label: 'Open public space in the built-up area',
+                value: pct(total.openShare),
+                detail: `${ha(total.open_m2)} of ${ha(total.builtUp_m2)} ha built-up`,
+              },
+              {
+                label: `Population within ${WALKING_DISTANCE_M} m of open public space`,
+                value: pct(total.accessShare),
+                detail: `${fmt(total.served, 0)} of ${fmt(total.population, 0)} people`,
+              },
+              {
+                label: 'Public-space parcels',
+                value: String((accessCounts.right ?? 0) + (accessCounts.restriction ?? 0)),
+                detail: `${accessCounts.closed ?? 0} public parcel${accessCounts.closed === 1 ? '' : 's'} without public access`,
+              },
+            ].map(m => (
+              <div key={m.label} className="border border-emerald-200 bg-emerald-50 rounded-xl p-6 shadow-sm">
+                <p className="text-sm font-medium text-gray-600 mb-1">{m.label}</p>
+                <p className="text-3xl font-bold text-emerald-900 font-mono">{m.value}</p>
+                <p className="text-xs text-gray-500 mt-1">{m.detail}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Map */}
+        <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200 space-y-2">
+            <h3 className="text-lg font-semibold text-gray-900">{MODE_LABELS[mode]} by Admin Unit</h3>
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+              {SHARE_CLASSES[mode].map(c => (
+                <span key={c.label} className="flex items-center">
+                  <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: c.color }} />
+                  {c.label}
+                </span>
+              ))}
+              <span className="flex items-center">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: NO_SHARE_COLOR }} />
+                no value
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+              {PUBLIC_ACCESS.map(a => (
+                <span key={a.key} className="flex items-center">
+                  <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: a.color }} />
+                  {a.label} ({accessCounts[a.key] ?? 0})
+                </span>
+              ))}
+              {mode === 'access' ? (
+                <>
+                  <span className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: SERVED_COLOR, opacity: 0.5 }} />
+                    Grid cell within {WALKING_DISTANCE_M} m
+                  </span>
+                  <span className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: UNSERVED_COLOR, opacity: 0.5 }} />
+                    Grid cell beyond
+                  </span>
+                </>
+              ) : (
+                <span className="flex items-center">
+                  <span className="inline-block w-3 h-0.5 mr-1.5" style={{ background: '#d62728' }} />
+                  Built-up {year}
+                </span>
+              )}
+            </div>
+          </div>
+          <div ref={containerRef} className="w-full h-[480px]" />
+        </div>
+
+        {/* Per-unit table */}
+        {analysis && total && (
+          <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 overflow-x-auto">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Results by Admin Unit ({year})</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="py-1 text-left font-medium">Unit</th>
+                  <th className="py-1 text-right font-medium">Built-up (ha)</th>
+                  <th className="py-1 text-right font-medium">Open public space (ha)</th>
+                  <th className="py-1 text-right font-medium">Share</th>
+                  <th className="py-1 text-right font-medium">Population</th>
+                  <th className="py-1 text-right font-medium">Within {WALKING_DISTANCE_M} m</th>
+                  <th className="py-1 text-right font-medium">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...analysis.units, total].map(u => (
+                  <tr key={u.code} className={u === total ? 'font-semibold' : undefined}>
+                    <td className="py-1.5 text-gray-700">{u === total ? u.name : `${u.name} (${u.code})`}</td>
+                    <td className="py-1.5 font-mono text-right">{ha(u.builtUp_m2)}</td>
+                    <td className="py-1.5 font-mono text-right">{ha(u.open_m2)}</td>
+                    <td className="py-1.5 font-mono text-right">{pct(u.openShare)}</td>
+                    <td className="py-1.5 font-mono text-right">{fmt(u.population, 0)}</td>
+                    <td className="py-1.5 font-mono text-right">{fmt(u.served, 0)}</td>
+                    <td className="py-1.5 font-mono text-right">{pct(u.accessShare)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Information Cards */}
+        <div className="grid md:grid-cols-2 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Calculation Notes</h3>
+            <div className="text-sm text-gray-600 space-y-2">
+              <p><strong>Open public space:</strong> parcels with a current <code>publicAccess</code> right or <code>publicPassage</code> restriction. Public land without either is shown but not counted.</p>
+              <p><strong>Share of built-up area:</strong> only the part of a parcel inside the built-up area of the epoch counts.</p>
+              <p><strong>Walking distance:</strong> a straight-line {WALKING_DISTANCE_M} m buffer around the parcels, not a street network; a grid cell is served when its centroid falls inside.</p>
+              <p>The 2025 population grid is used for every epoch; only its distribution over cells matters for the share.</p>
+              <p className="text-amber-600 font-medium">⚠️ Veriler sentetiktir ve demo amaçlıdır.</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Map Attribution</h3>
+            <div className="text-sm text-gray-600">
+              <p>© OpenStreetMap contributors</p>
+              <p>Style: MapLibre demo tiles</p>
+              <p>Parcels: {data?.register.name ?? 'Synthetic LADM register'}</p>
+              <p>Built-up and population grid: synthetic sample data</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
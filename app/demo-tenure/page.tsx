@@ -0,0 +1,458 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import maplibregl from 'maplibre-gl';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import * as turf from '@turf/turf';
+import type { AreaCollection } from '@/lib/sdg1131/units';
+import type { LadmRegister } from '@/lib/ladm/model';
+import { validateRegister, type LadmIssue } from '@/lib/ladm/validate';
+import { snapshot } from '@/lib/ladm/time';
+import {
+  ADULT_AGE,
+  PARCEL_STATUS,
+  SEX_KEYS,
+  indicator142,
+  indicator5a1,
+  parcelStatus,
+  type Counts,
+  type SexKey,
+  type TenureTypeCounts,
+} from '@/lib/tenure/indicators';
+
+const DEFAULT_AS_OF = '2024-12-31';
+
+const SEX_LABELS: Record<SexKey, string> = { female: 'Women', male: 'Men', unknown: 'Not recorded' };
+
+function fmt(n: number, maxFrac = 2) {
+  return new Intl.NumberFormat('en-US', { maximumFractionDigits: maxFrac }).format(n);
+}
+
+// Gün sonu değil gün başı: seçilen tarihte başlayan kayıtlar dahil edilir
+const toInstant = (date: string) => (/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00Z` : null);
+
+const pct = (part: number, whole: number) => (whole > 0 ? `${fmt((part / whole) * 100, 1)}%` : '—');
+
+function CountsTable({ rows }: { rows: { key: string; label: string; counts: Counts }[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500 uppercase tracking-wider">
+          <th className="py-1 text-left font-medium">Group</th>
+          <th className="py-1 text-right font-medium">Adults</th>
+          <th className="py-1 text-right font-medium">Holding a right</th>
+          <th className="py-1 text-right font-medium">Documented</th>
+          <th className="py-1 text-right font-medium">Share</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map(({ key, label, counts }) => (
+          <tr key={key}>
+            <td className="py-1.5 text-gray-700">{label}</td>
+            <td className="py-1.5 font-mono text-right">{counts.adults}</td>
+            <td className="py-1.5 font-mono text-right">{counts.holders}</td>
+            <td className="py-1.5 font-mono text-right">{counts.documented}</td>
+            <td className="py-1.5 font-mono text-right font-semibold">{pct(counts.documented, counts.adults)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function TenureTable({ rows, holdersLabel }: { rows: TenureTypeCounts[]; holdersLabel: string }) {
+  if (rows.length === 0) return <p className="text-sm text-gray-500">No rights held at this date.</p>;
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500 uppercase tracking-wider">
+          <th className="py-1 text-left font-medium">Right type</th>
+          <th className="py-1 text-right font-medium">{holdersLabel}</th>
+          <th className="py-1 text-right font-medium">Documented</th>
+          <th className="py-1 text-right font-medium">Women</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map(row => (
+          <tr key={row.type}>
+            <td className="py-1.5 font-mono text-gray-700">{row.type}</td>
+            <td className="py-1.5 font-mono text-right">{row.holders}</td>
+            <td className="py-1.5 font-mono text-right">{pct(row.documented, row.holders)}</td>
+            <td className="py-1.5 font-mono text-right">{pct(row.women, row.holders)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function DemoTenurePage() {
+  const mapRef = useRef<maplibregl.Map | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const [register, setRegister] = useState<LadmRegister | null>(null);
+  const [admin, setAdmin] = useState<AreaCollection | null>(null);
+  const [issues, setIssues] = useState<LadmIssue[]>([]);
+  const [asOfDate, setAsOfDate] = useState(DEFAULT_AS_OF);
+  const [knownDate, setKnownDate] = useState(''); // '': the register as it stands now
+  const [mapReady, setMapReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/data/ladm_register.json').then(r => r.json()),
+      fetch('/data/admin_unit.geojson').then(r => r.json()),
+    ])
+      .then(([data, adminFC]) => {
+        const report = validateRegister(data);
+        setIssues(report.issues);
+        setRegister(report.register);
+        setAdmin(adminFC as AreaCollection);
+        if (!report.register) setError('The LADM register could not be read; see the issues below.');
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const valid = toInstant(asOfDate);
+  const known = toInstant(knownDate) ?? undefined;
+
+  const results = useMemo(() => {
+    if (!register || !valid) return null;
+    const asOf = { valid, known };
+    // Geçerli tarihte var olup bilgi tarihinden sonra tescil edilen haklar
+    const knownRights = new Set(snapshot(register, asOf).rrrs.map(r => r.rID));
+    return {
+      i142: indicator142(register, asOf),
+      i5a1: indicator5a1(register, asOf),
+      parcels: parcelStatus(register, asOf),
+      registeredLater: snapshot(register, { valid }).rrrs.filter(r => r.kind === 'right' && !knownRights.has(r.rID)).length,
+    };
+  }, [register, valid, known]);
+
+  const parcelCounts = useMemo(() => {
+    const counts = Object.fromEntries(PARCEL_STATUS.map(s => [s.key, 0])) as Record<string, number>;
+    results?.parcels.forEach(p => { counts[p.status] += 1; });
+    return counts;
+  }, [results]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = new maplibregl.Map({
+      container: containerRef.current,
+      style: 'https://demotiles.maplibre.org/style.json',
+      center: [29.03, 41.02],
+      zoom: 12,
+    });
+
+    mapRef.current = map;
+
+    map.on('load', () => {
+      const empty = turf.featureCollection([]);
+
+      // Parseller: geçerli hakların belgelenme durumuna göre renklendirilir
+      map.addSource('parcels', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'parcels-fill',
+        type: 'fill',
+        source: 'parcels',
+        paint: {
+          'fill-color': [
+            'match',
+            ['get', 'status'],
+            ...PARCEL_STATUS.flatMap(s => [s.key, s.color]),
+            '#9ca3af',
+          ] as unknown as maplibregl.ExpressionSpecification,
+          'fill-opacity': 0.6,
+        }
+      });
+      map.addLayer({
+        id: 'parcels-line',
+        type: 'line',
+        source: 'parcels',
+        paint: { 'line-color': '#374151', 'line-width': 0.75 }
+      });
+
+      map.addSource('admin', { type: 'geojson', data: empty });
+      map.addLayer({
+        id: 'admin-line',
+        type: 'line',
+        source: 'admin',
+        paint: { 'line-color': '#000000', 'line-width': 1.5, 'line-dasharray': [2, 2] }
+      });
+
+      // Açılır pencerede hak sahibi adları gösterilmez, yalnızca hak türleri
+      map.on('click', 'parcels-fill', (e) => {
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        const status = PARCEL_STATUS.find(s => s.key === props.status);
+        const rights = JSON.parse(props.rights as string) as string[];
+        new maplibregl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<strong>${props.label}</strong> (${props.landUse})<br/>` +
+            `${status?.label ?? props.status}<br/>` +
+            (rights.length > 0 ? `Rights: ${Array.from(new Set(rights)).join(', ')}` : 'No current right')
+          )
+          .addTo(map);
+      });
+      map.on('mouseenter', 'parcels-fill', () => { map.getCanvas().style.cursor = 'pointer'; });
+      map.on('mouseleave', 'parcels-fill', () => { map.getCanvas().style.cursor = ''; });
+
+      setMapReady(true);
+    });
+
+    return () => {
+      // Unmount
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !admin) return;
+    (map.getSource('admin') as maplibregl.GeoJSONSource).setData(admin);
+    const [minX, minY, maxX, maxY] = turf.bbox(admin);
+    map.fitBounds([[minX, minY], [maxX, maxY]], { padding: 20, duration: 0 });
+  }, [mapReady, admin]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !register) return;
+    const geometry = new Map(register.spatialUnits.map(s => [s.suID, s.geometry]));
+    (map.getSource('parcels') as maplibregl.GeoJSONSource).setData(
+      turf.featureCollection(
+        (results?.parcels ?? []).map(p => turf.feature(geometry.get(p.suID)!, { ...p, rights: JSON.stringify(p.rights) }))
+      )
+    );
+  }, [mapReady, register, results]);
+
+  const i142 = results?.i142;
+  const i5a1 = results?.i5a1;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Bar */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </Link>
+              <div className="text-sm text-gray-500">
+                <Link href="/" className="hover:text-gray-700">Home</Link>
+                <span className="mx-2">/</span>
+                <span className="text-gray-900 font-medium">Tenure Security Demo</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center mb-4">
+            <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center mr-4">
+              <svg className="w-6 h-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">SDG 1.4.2 &amp; 5.a.1 Analysis</h1>
+              <p className="text-lg text-gray-600">Tenure security from LADM records</p>
+            </div>
+          </div>
+
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <p className="text-amber-800">
+              This demo reads a synthetic <strong>LADM</strong> register (parties, rights, BAUnits, parcels and source documents) and
+              computes the share of adults holding a <strong>legally documented</strong> right to land, and the agricultural
+              population with secure rights over agricultural land, by sex, tenure type and admin unit.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center">
+              <svg className="w-5 h-5 text-red-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-red-800 font-medium">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div className="mb-6 bg-white rounded-xl shadow-sm border border-amber-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Register Issues ({issues.length})</h3>
+            <ul className="text-sm text-gray-700 space-y-1 max-h-48 overflow-y-auto">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-mono text-xs text-gray-500">{issue.cls ?? 'register'} {issue.id} · {issue.field}</span>{' '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Reference dates */}
+        <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="as-of">Reference date (valid time)</label>
+            <input
+              id="as-of"
+              type="date"
+              value={asOfDate}
+              onChange={e => setAsOfDate(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Rights, parties and parcels valid on this date are counted; a document counts once it has been accepted by then.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="known-at">Register as known on (registration time)</label>
+            <div className="flex items-center gap-2">
+              <input
+                id="known-at"
+                type="date"
+                value={knownDate}
+                onChange={e => setKnownDate(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+              />
+              <button
+                onClick={() => setKnownDate(asOfDate)}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Same as reference
+              </button>
+              <button
+                onClick={() => setKnownDate('')}
+                disabled={knownDate === ''}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Latest
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {knownDate === ''
+                ? 'Computed on the register as it stands now, including late registrations and corrections.'
+                : 'Entries registered after this date are ignored, so the result does not change with later registrations.'}
+              {results && results.registeredLater > 0 && (
+                <> {results.registeredLater} right{results.registeredLater > 1 ? 's' : ''} valid on the reference date {results.registeredLater > 1 ? 'were' : 'was'} registered later.</>
+              )}
+            </p>
+          </div>
+        </div>
+
+        {/* Headline indicators */}
+        {i142 && i5a1 && (
+          <div className="mb-8 grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[
+              {
+                label: '1.4.2 (a) Adults with documented rights',
+                value: pct(i142.total.documented, i142.total.adults),
+                detail: `${i142.total.documented} of ${i142.total.adults} adults`,
+              },
+              {
+                label: '5.a.1 (a) Agricultural population with secure rights',
+                value: pct(i5a1.total.documented, i5a1.total.adults),
+                detail: `${i5a1.total.documented} of ${i5a1.total.adults} adults in agricultural households`,
+              },
+              {
+                label: '5.a.1 (b) Women among rights-bearers',
+                value: pct(i5a1.women, i5a1.bearers),
+                detail: `${i5a1.women} of ${i5a1.bearers} documented rights-bearers`,
+              },
+            ].map(m => (
+              <div key={m.label} className="border border-amber-200 bg-amber-50 rounded-xl p-6 shadow-sm">
+                <p className="text-sm font-medium text-gray-600 mb-1">{m.label}</p>
+                <p className="text-3xl font-bold text-amber-900 font-mono">{m.value}</p>
+                <p className="text-xs text-gray-500 mt-1">{m.detail}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Map */}
+        <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200 flex flex-wrap items-center gap-4">
+            <h3 className="text-lg font-semibold text-gray-900 mr-auto">Parcels by Documentation Status</h3>
+            {PARCEL_STATUS.map(s => (
+              <span key={s.key} className="flex items-center text-xs text-gray-600">
+                <span className="inline-block w-3 h-3 rounded-sm mr-1.5" style={{ background: s.color }} />
+                {s.label} ({parcelCounts[s.key] ?? 0})
+              </span>
+            ))}
+          </div>
+          <div ref={containerRef} className="w-full h-[480px]" />
+        </div>
+
+        {i142 && i5a1 && (
+          <div className="mb-8 grid md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">1.4.2 by Sex</h3>
+              <CountsTable
+                rows={[
+                  ...SEX_KEYS.filter(k => i142.bySex[k].adults > 0).map(k => ({ key: k, label: SEX_LABELS[k], counts: i142.bySex[k] })),
+                  { key: 'total', label: 'Total', counts: i142.total },
+                ]}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">1.4.2 by Admin Unit of Residence</h3>
+              <CountsTable rows={i142.byUnit.map(u => ({ key: u.code, label: `${u.name} (${u.code})`, counts: u }))} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">1.4.2 by Tenure Type</h3>
+              <TenureTable rows={i142.byTenure} holdersLabel="Adult holders" />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">5.a.1 by Sex and Tenure Type</h3>
+              <CountsTable
+                rows={SEX_KEYS.filter(k => i5a1.bySex[k].adults > 0).map(k => ({ key: k, label: SEX_LABELS[k], counts: i5a1.bySex[k] }))}
+              />
+              <div className="mt-4">
+                <TenureTable rows={i5a1.byTenure} holdersLabel="Rights-bearers" />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Information Cards */}
+        <div className="grid md:grid-cols-2 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Calculation Notes</h3>
+            <div className="text-sm text-gray-600 space-y-2">
+              <p><strong>Adult:</strong> a natural person aged {ADULT_AGE} or over on the reference date.</p>
+              <p><strong>Documented:</strong> the right is backed by an administrative source that is available and was accepted by the reference date.</p>
+              <p><strong>Agricultural:</strong> parties in agricultural households (denominator) and rights on BAUnits with an agricultural parcel (numerator).</p>
+              <p>The denominator is the register&apos;s resident parties; part (b) of 1.4.2 (perceived security) needs survey data and is not computed.</p>
+              <p className="text-amber-600 font-medium">⚠️ Veriler sentetiktir ve demo amaçlıdır.</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Map Attribution</h3>
+            <div className="text-sm text-gray-600">
+              <p>© OpenStreetMap contributors</p>
+              <p>Style: MapLibre demo tiles</p>
+              <p>Parcels: {register?.name ?? 'Synthetic LADM register'}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
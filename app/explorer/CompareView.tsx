@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { validateCrosswalk, type CrosswalkValidationReport, type JsonRecord } from '@/lib/crosswalk/schema';
+import type { RevisionMeta } from '@/lib/crosswalk/store';
+import { fetchRevision, fetchRevisions } from '@/lib/crosswalk/client';
+import { diffDatasets, toJsonPatch, toMarkdownChangelog, type FieldChange } from '@/lib/crosswalk/diff';
+import { readRecordsFile } from '@/lib/crosswalk/tabular';
+import { downloadFile, today } from '@/lib/download';
+
+type Props = {
+  currentRows: JsonRecord[];
+  currentLabel: string;
+  onClose: () => void;
+};
+
+// 'current' | 'default' | 'file' | 'rev:<n>'
+type SourceId = string;
+
+type Side = {
+  source: SourceId;
+  label: string;
+  records: JsonRecord[] | null;
+  error: string | null;
+  validation: CrosswalkValidationReport | null; // imported files only
+};
+
+const emptySide = (source: SourceId): Side => ({ source, label: '', records: null, error: null, validation: null });
+
+// Rows failing the schema still compare; the picker names the first issue
+function validationNote({ total, valid, issues }: CrosswalkValidationReport) {
+  if (issues.length === 0) return null;
+  const first = issues[0];
+  return `${total - valid} invalid — ${first.label} ${first.field}: ${first.message}`;
+}
+
+function DatasetPicker({
+  title,
+  side,
+  revisions,
+  currentLabel,
+  onSelect,
+  onFile,
+}: {
+  title: string;
+  side: Side;
+  revisions: RevisionMeta[];
+  currentLabel: string;
+  onSelect: (source: SourceId) => void;
+  onFile: (file: File) => void;
+}) {
+  return (
+    <div className="flex-1">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{title}</div>
+      <select
+        value={side.source}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white"
+      >
+        <option value="current">Current data ({currentLabel})</option>
+        <option value="default">Default (crosswalk.v1.json)</option>
+        <option value="file">Imported file…</option>
+        {revisions.map(rev => (
+          <option key={rev.version} value={`rev:${rev.version}`}>
+            Revision v{rev.version} — {rev.message}
+          </option>
+        ))}
+      </select>
+      {side.source === 'file' && (
+        <input
+          type="file"
+          accept=".json,.csv,.xlsx"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+          className="mt-2 block text-sm text-gray-700"
+        />
+      )}
+      <div className="mt-1 text-xs text-gray-500 min-h-4">
+        {side.error
+          ? <span className="text-red-700">{side.error}</span>
+          : side.records
+          ? `${side.label}: ${side.records.length} records`
+          : side.source === 'file' ? 'Choose a JSON, CSV or XLSX file' : 'Loading…'}
+        {side.validation && validationNote(side.validation) && (
+          <div className="text-amber-700">{validationNote(side.validation)}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FieldValue({ field }: { field: FieldChange }) {
+  if (field.items) {
+    const before = (field.before as unknown[]).map(v => JSON.stringify(v));
+    const after = field.after as unknown[];
+    const removed = field.items.removed;
+    return (
+      <div>
+        {after.map((item, i) => {
+          const isNew = !before.includes(JSON.stringify(item));
+          return (
+            <span
+              key={`a-${i}`}
+              className={`inline-block text-xs px-2 py-1 rounded mr-1 mb-1 ${
+                isNew ? 'bg-green-100 text-green-800 ring-1 ring-green-300' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {isNew && '+ '}{typeof item === 'object' ? JSON.stringify(item) : String(item)}
+            </span>
+          );
+        })}
+        {removed.map((item, i) => (
+          <span key={`r-${i}`} className="inline-block text-xs px-2 py-1 rounded mr-1 mb-1 bg-red-100 text-red-800 line-through">
+            {typeof item === 'object' ? JSON.stringify(item) : String(item)}
+          </span>
+        ))}
+        {field.items.reordered && <span className="text-xs text-amber-700">(order changed)</span>}
+      </div>
+    );
+  }
+
+  const show = (v: unknown) => (typeof v === 'string' ? v : JSON.stringify(v));
+  return (
+    <div className="text-sm">
+      {field.before !== undefined && (
+        <div className="bg-red-50 text-red-800 line-through px-2 py-1 rounded mb-1">{show(field.before)}</div>
+      )}
+      {field.after !== undefined && (
+        <div className="bg-green-50 text-green-800 px-2 py-1 rounded">{show(field.after)}</div>
+      )}
+    </div>
+  );
+}
+
+export default function CompareView({ currentRows, currentLabel, onClose }: Props) {
+  const [revisions, setRevisions] = useState<RevisionMeta[]>([]);
+  const [base, setBase] = useState<Side>(emptySide('default'));
+  const [compare, setCompare] = useState<Side>(emptySide('current'));
+  const [showUnchangedFields, setShowUnchangedFields] = useState(false);
+
+  useEffect(() => {
+    fetchRevisions().then(setRevisions).catch(() => setRevisions([]));
+  }, []);
+
+  const loadSource = async (source: SourceId): Promise<{ label: string; records: JsonRecord[] }> => {
+    if (source === 'current') return { label: currentLabel, records: currentRows };
+    if (source === 'default') {
+      const res = await fetch('/data/crosswalk.v1.json', { cache: 'no-store' });
+      return { label: 'crosswalk.v1.json', records: await res.json() };
+    }
+    const version = Number(source.slice('rev:'.length));
+    const rev = await fetchRevision(version);
+    return { label: `v${rev.version}`, records: rev.records };
+  };
+
+  const select = (setSide: (s: Side) => void) => (source: SourceId) => {
+    setSide(emptySide(source));
+    if (source === 'file') return;
+    loadSource(source)
+      .then(({ label, records }) => setSide({ source, label, records, error: null, validation: null }))
+      .catch((e: Error) => setSide({ ...emptySide(source), error: e.message }));
+  };
+
+  // Same parsing and schema check as the explorer import
+  const readFile = (setSide: (s: Side) => void) => async (file: File) => {
+    setSide(emptySide('file'));
+    try {
+      const records = await readRecordsFile(file);
+      setSide({ source: 'file', label: file.name, records, error: null, validation: validateCrosswalk(records, file.name) });
+    } catch (error) {
+      setSide({ ...emptySide('file'), error: `Could not read ${file.name}: ${(error as Error).message}` });
+    }
+  };
+
+  // Load the initial pair once: default file vs current explorer data
+  useEffect(() => {
+    select(setBase)('default');
+    select(setCompare)('current');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const diff = useMemo(() => {
+    if (!base.records || !compare.records) return null;
+    return diffDatasets(base.records, compare.records);
+  }, [base.records, compare.records]);
+
+  const exportPatch = () => {
+    if (!diff) return;
+    downloadFile(`crosswalk-patch-${today()}.json`, JSON.stringify(toJsonPatch(diff), null, 2), 'application/json-patch+json');
+  };
+
+  const exportChangelog = () => {
+    if (!diff) return;
+    downloadFile(`crosswalk-changelog-${today()}.md`, toMarkdownChangelog(diff, base.label, compare.label), 'text/markdown');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      onClick={onClose}
+    >
+      <div
+        className="relative top-10 mx-auto mb-10 p-5 border max-w-5xl shadow-lg rounded-md bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Compare Datasets</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex items-start space-x-4 mb-4">
+          <DatasetPicker
+            title="Base"
+            side={base}
+            revisions={revisions}
+            currentLabel={currentLabel}
+            onSelect={select(setBase)}
+            onFile={readFile(setBase)}
+          />
+          <div className="pt-8 text-gray-400">→</div>
+          <DatasetPicker
+            title="Compare"
+            side={compare}
+            revisions={revisions}
+            currentLabel={currentLabel}
+            onSelect={select(setCompare)}
+            onFile={readFile(setCompare)}
+          />
+        </div>
+
+        {diff && (
+          <>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2 text-sm">
+                <span className="px-2 py-1 bg-green-100 text-green-800 rounded">{diff.added.length} added</span>
+                <span className="px-2 py-1 bg-red-100 text-red-800 rounded">{diff.removed.length} removed</span>
+                <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded">{diff.changed.length} changed</span>
+                <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded">{diff.unchanged} unchanged</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <label className="flex items-center text-xs text-gray-600 mr-2">
+                  <input
+                    type="checkbox"
+                    checked={showUnchangedFields}
+                    onChange={(e) => setShowUnchangedFields(e.target.checked)}
+                    className="mr-1 rounded border-gray-300"
+                  />
+                  Show full records
+                </label>
+                <button
+                  onClick={exportPatch}
+                  className="px-3 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Export JSON Patch
+                </button>
+                <button
+                  onClick={exportChangelog}
+                  className="px-3 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Export Markdown
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {diff.added.map(r => (
+                <div key={`add-${r.key}-${r.index}`} className="border border-green-200 bg-green-50 rounded-md px-4 py-2">
+                  <span className="font-mono font-semibold text-green-900">+ {r.key}</span>
+                  <span className="ml-2 text-sm text-green-800">{String(r.record.title ?? '')}</span>
+                </div>
+              ))}
+              {diff.removed.map(r => (
+                <div key={`rem-${r.key}-${r.index}`} className="border border-red-200 bg-red-50 rounded-md px-4 py-2">
+                  <span className="font-mono font-semibold text-red-900">− {r.key}</span>
+                  <span className="ml-2 text-sm text-red-800 line-through">{String(r.record.title ?? '')}</span>
+                </div>
+              ))}
+              {diff.changed.map(change => {
+                const changedPaths = new Set(change.fields.map(f => f.path));
+                return (
+                  <div key={`chg-${change.key}`} className="border border-yellow-200 rounded-md">
+                    <div className="px-4 py-2 bg-yellow-50 border-b border-yellow-200">
+                      <span className="font-mono font-semibold text-yellow-900">~ {change.key}</span>
+                      <span className="ml-2 text-sm text-yellow-800">{String(change.after.title ?? '')}</span>
+                    </div>
+                    <table className="min-w-full text-sm">
+                      <tbody className="divide-y divide-gray-100">
+                        {change.fields.map(field => (
+                          <tr key={field.path}>
+                            <td className="px-4 py-2 w-48 align-top font-mono text-xs text-gray-600">
+                              {field.path}
+                              <span className="ml-1 text-gray-400">({field.kind})</span>
+                            </td>
+                            <td className="px-4 py-2"><FieldValue field={field} /></td>
+                          </tr>
+                        ))}
+                        {showUnchangedFields &&
+                          Object.keys(change.after)
+                            .filter(k => !Array.from(changedPaths).some(p => p === k || p.startsWith(`${k}.`)))
+                            .map(k => (
+                              <tr key={k} className="text-gray-500">
+                                <td className="px-4 py-2 w-48 align-top font-mono text-xs">{k}</td>
+                                <td className="px-4 py-2 text-xs">
+                                  {typeof change.after[k] === 'string' ? change.after[k] : JSON.stringify(change.after[k])}
+                                </td>
+                              </tr>
+                            ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+              {diff.added.length + diff.removed.length + diff.changed.length === 0 && (
+                <p className="text-center text-sm text-gray-500 py-8">The two datasets are identical.</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
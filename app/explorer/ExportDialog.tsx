@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import type { JsonRecord } from '@/lib/crosswalk/schema';
+import { recordsToTable, toCsv, toXlsx } from '@/lib/crosswalk/tabular';
+import { downloadFile, today } from '@/lib/download';
+
+type Props = {
+  allRows: JsonRecord[];
+  filteredRows: JsonRecord[];
+  allKeys: string[];
+  visibleKeys: string[];
+  onClose: () => void;
+};
+
+type Format = 'json' | 'csv' | 'xlsx';
+
+function Choice<T extends string>({ label, value, options, onChange }: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="mb-4">
+      <p className="text-sm text-gray-700 font-medium mb-2">{label}</p>
+      <div className="flex space-x-2">
+        {options.map(o => (
+          <button
+            key={o.value}
+            onClick={() => onChange(o.value)}
+            className={`flex-1 px-3 py-2 text-sm border rounded-md transition-colors ${
+              value === o.value
+                ? 'bg-green-100 text-green-800 border-green-300'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ExportDialog({ allRows, filteredRows, allKeys, visibleKeys, onClose }: Props) {
+  const [format, setFormat] = useState<Format>('json');
+  const [scope, setScope] = useState<'filtered' | 'all'>('all');
+  const [columns, setColumns] = useState<'visible' | 'all'>('all');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    const rows = scope === 'filtered' ? filteredRows : allRows;
+    const keys = columns === 'visible' ? visibleKeys : allKeys;
+    const base = `exported-data-${today()}`;
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (format === 'json') {
+        const picked = columns === 'visible'
+          ? rows.map(r => Object.fromEntries(keys.filter(k => k in r).map(k => [k, r[k]])))
+          : rows;
+        downloadFile(`${base}.json`, JSON.stringify(picked, null, 2), 'application/json');
+      } else if (format === 'csv') {
+        downloadFile(`${base}.csv`, toCsv(recordsToTable(rows, keys)), 'text/csv;charset=utf-8');
+      } else {
+        const buffer = await toXlsx(recordsToTable(rows, keys));
+        downloadFile(`${base}.xlsx`, buffer, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      }
+      onClose();
+    } catch (e) {
+      setError(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      onClick={onClose}
+    >
+      <div
+        className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Export Data</h3>
+
+        <Choice
+          label="Format"
+          value={format}
+          onChange={setFormat}
+          options={[
+            { value: 'json', label: 'JSON' },
+            { value: 'csv', label: 'CSV' },
+            { value: 'xlsx', label: 'XLSX' },
+          ]}
+        />
+        <Choice
+          label="Records"
+          value={scope}
+          onChange={setScope}
+          options={[
+            { value: 'all', label: `All (${allRows.length})` },
+            { value: 'filtered', label: `Filtered (${filteredRows.length})` },
+          ]}
+        />
+        <Choice
+          label="Columns"
+          value={columns}
+          onChange={setColumns}
+          options={[
+            { value: 'all', label: `All (${allKeys.length})` },
+            { value: 'visible', label: `Visible (${visibleKeys.length})` },
+          ]}
+        />
+
+        {format !== 'json' && (
+          <p className="text-xs text-gray-500 mb-4">
+            Nested fields become dotted columns (<code>joins.spatial</code>). Array columns end in <code>[]</code> and
+            list their items separated by <code>;</code>. Files in this layout can be imported again.
+          </p>
+        )}
+
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+          >
+            {busy ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
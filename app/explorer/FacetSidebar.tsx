@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import type { FacetCounts, FacetMode, FacetSelections } from '@/lib/crosswalk/facets';
+
+type Props = {
+  facets: FacetCounts[];
+  selections: FacetSelections;
+  onToggle: (field: string, value: string) => void;
+  onModeChange: (field: string, mode: FacetMode) => void;
+  onClear: () => void;
+};
+
+const COLLAPSED_LIMIT = 8;
+
+const facetLabel = (field: string) =>
+  field
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/[_.]/g, ' ')
+    .replace(/\b\w/g, l => l.toUpperCase())
+    .trim();
+
+export default function FacetSidebar({ facets, selections, onToggle, onModeChange, onClear }: Props) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const anySelected = Object.values(selections).some(s => s.values.length > 0);
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-white rounded-xl shadow-sm border border-gray-200 self-start">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 rounded-t-xl flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-900">Facets</h2>
+        {anySelected && (
+          <button onClick={onClear} className="text-xs text-red-600 hover:text-red-800">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {facets.map(facet => {
+          const selection = selections[facet.field];
+          const mode = selection?.mode ?? 'any';
+          const showAll = expanded[facet.field];
+          const visible = showAll ? facet.values : facet.values.slice(0, COLLAPSED_LIMIT);
+
+          return (
+            <div key={facet.field} className="px-4 py-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">{facetLabel(facet.field)}</span>
+                {facet.isList && (
+                  <div className="flex text-xs border border-gray-300 rounded overflow-hidden">
+                    {(['any', 'all'] as const).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => onModeChange(facet.field, m)}
+                        className={`px-1.5 py-0.5 ${mode === m ? 'bg-green-100 text-green-800' : 'bg-white text-gray-500 hover:bg-gray-50'}`}
+                        title={m === 'any' ? 'Match any selected value (OR)' : 'Match all selected values (AND)'}
+                      >
+                        {m === 'any' ? 'OR' : 'AND'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <ul className="space-y-1">
+                {visible.map(({ value, count }) => {
+                  const checked = selection?.values.includes(value) ?? false;
+                  return (
+                    <li key={value}>
+                      <label className={`flex items-center text-sm cursor-pointer ${count === 0 && !checked ? 'opacity-40' : ''}`}>
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          onChange={() => onToggle(facet.field, value)}
+                          className="rounded border-gray-300 text-green-600 shadow-sm focus:ring-green-200"
+                        />
+                        <span className="ml-2 flex-1 truncate text-gray-700" title={value}>{value}</span>
+                        <span className="ml-2 text-xs text-gray-500 font-mono">{count}</span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {facet.values.length > COLLAPSED_LIMIT && (
+                <button
+                  onClick={() => setExpanded(prev => ({ ...prev, [facet.field]: !showAll }))}
+                  className="mt-1 text-xs text-green-700 hover:underline"
+                >
+                  {showAll ? 'Show less' : `Show all (${facet.values.length})`}
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {facets.length === 0 && (
+          <p className="px-4 py-3 text-sm text-gray-500">No categorical fields in this dataset.</p>
+        )}
+      </div>
+    </aside>
+  );
+}
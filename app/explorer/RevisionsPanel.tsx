@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RevisionMeta } from '@/lib/crosswalk/store';
+import { fetchRevisions } from '@/lib/crosswalk/client';
+
+type Props = {
+  currentVersion: number | null;
+  author: string;
+  onAuthorChange: (author: string) => void;
+  onLoad: (version: number) => void;
+  onRollback: (version: number) => Promise<void>;
+  onClose: () => void;
+};
+
+export default function RevisionsPanel({ currentVersion, author, onAuthorChange, onLoad, onRollback, onClose }: Props) {
+  const [revisions, setRevisions] = useState<RevisionMeta[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => {
+    fetchRevisions()
+      .then(list => {
+        setRevisions(list);
+        setError(null);
+      })
+      .catch((e: Error) => setError(e.message));
+  };
+
+  useEffect(refresh, []);
+
+  const handleRollback = async (version: number) => {
+    if (!author.trim()) {
+      setError('Enter your name before rolling back.');
+      return;
+    }
+    if (!confirm(`Roll back to v${version}? A new revision will be created with its records.`)) return;
+    setBusy(true);
+    try {
+      await onRollback(version);
+      refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      onClick={onClose}
+    >
+      <div
+        className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Revision History</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <label className="block mb-4">
+          <span className="text-sm text-gray-700 font-medium">Your name</span>
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            placeholder="Used as the author of rollbacks"
+            className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          />
+        </label>
+
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+        {revisions === null && !error && <p className="text-sm text-gray-500">Loading revisions…</p>}
+
+        {revisions && (
+          <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+            {revisions.map(rev => (
+              <li key={rev.version} className={`px-4 py-3 ${rev.version === currentVersion ? 'bg-blue-50' : ''}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-mono font-semibold text-gray-900">v{rev.version}</span>
+                      {rev.version === currentVersion && (
+                        <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded">loaded</span>
+                      )}
+                      {rev.rollbackOf !== undefined && (
+                        <span className="px-2 py-0.5 text-xs bg-amber-100 text-amber-800 rounded">rollback of v{rev.rollbackOf}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-800 mt-1">{rev.message}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {rev.author} · {new Date(rev.createdAt).toLocaleString()} · {rev.recordCount} records
+                    </p>
+                  </div>
+                  <div className="flex flex-col space-y-1 ml-4">
+                    <button
+                      onClick={() => onLoad(rev.version)}
+                      className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      Load
+                    </button>
+                    {rev.version !== revisions[0].version && (
+                      <button
+                        onClick={() => handleRollback(rev.version)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs bg-amber-100 text-amber-800 rounded hover:bg-amber-200 disabled:opacity-50"
+                      >
+                        Roll back
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import type { FieldChange } from '@/lib/crosswalk/diff';
+
+type Props = {
+  fields: FieldChange[];
+  colSpan: number;
+  onRevertField: (path: string) => void;
+  onRevertRow: () => void;
+};
+
+const show = (v: unknown) => (v === undefined ? '—' : typeof v === 'string' ? v : JSON.stringify(v));
+
+// Inline "original vs current" view under an edited row
+export default function RowChanges({ fields, colSpan, onRevertField, onRevertRow }: Props) {
+  return (
+    <tr className="bg-yellow-50">
+      <td colSpan={colSpan} className="px-6 py-3 border-t border-yellow-200">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-medium text-yellow-800 uppercase tracking-wider">
+            {fields.length} changed field{fields.length === 1 ? '' : 's'}
+          </span>
+          <button
+            onClick={onRevertRow}
+            className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 focus:ring-2 focus:ring-red-500"
+          >
+            Revert row
+          </button>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="text-xs text-gray-500 uppercase tracking-wider">
+            <tr>
+              <th className="py-1 pr-4 text-left">Field</th>
+              <th className="py-1 pr-4 text-left">Original</th>
+              <th className="py-1 pr-4 text-left">Current</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-yellow-100">
+            {fields.map(field => (
+              <tr key={field.path}>
+                <td className="py-1 pr-4 font-mono text-xs text-gray-700 align-top">{field.path}</td>
+                <td className="py-1 pr-4 align-top">
+                  <span className="text-red-800 bg-red-50 px-1 rounded line-through">{show(field.before)}</span>
+                </td>
+                <td className="py-1 pr-4 align-top">
+                  <span className="text-green-800 bg-green-50 px-1 rounded">{show(field.after)}</span>
+                </td>
+                <td className="py-1 text-right align-top">
+                  <button
+                    onClick={() => onRevertField(field.path)}
+                    className="px-2 py-0.5 text-xs bg-white text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    Revert
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+
+type Props = {
+  baseVersion: number | null;
+  editedCount: number;
+  author: string;
+  onAuthorChange: (author: string) => void;
+  onSave: (message: string) => Promise<void>;
+  onClose: () => void;
+};
+
+export default function SaveRevisionDialog({ baseVersion, editedCount, author, onAuthorChange, onSave, onClose }: Props) {
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!author.trim() || !message.trim()) {
+      setError('Author and message are required.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(message.trim());
+    } catch (e) {
+      setError((e as Error).message);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      onClick={onClose}
+    >
+      <div
+        className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Save Revision</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {editedCount} edited record{editedCount === 1 ? '' : 's'}
+          {baseVersion !== null ? ` on top of v${baseVersion}` : ''}. The saved crosswalk becomes the newest revision.
+        </p>
+
+        <label className="block mb-3">
+          <span className="text-sm text-gray-700 font-medium">Author</span>
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          />
+        </label>
+
+        <label className="block mb-4">
+          <span className="text-sm text-gray-700 font-medium">Message</span>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={3}
+            placeholder="What changed and why"
+            className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          />
+        </label>
+
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { CrosswalkIssue, CrosswalkValidationReport } from '@/lib/crosswalk/schema';
+
+type Props = {
+  report: CrosswalkValidationReport;
+  onDismiss: () => void;
+};
+
+export default function ValidationPanel({ report, onDismiss }: Props) {
+  const [expanded, setExpanded] = useState(true);
+
+  // Group issues by row so each record shows all of its failing fields together
+  const byRow = useMemo(() => {
+    const groups = new Map<number, CrosswalkIssue[]>();
+    report.issues.forEach(issue => {
+      const list = groups.get(issue.row) ?? [];
+      list.push(issue);
+      groups.set(issue.row, list);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a - b);
+  }, [report]);
+
+  if (!report.parseError && report.issues.length === 0) return null;
+
+  const invalidRows = report.total - report.valid;
+
+  return (
+    <div className="mb-6 bg-red-50 border border-red-200 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3">
+        <div className="flex items-center">
+          <svg className="w-5 h-5 text-red-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          {report.parseError ? (
+            <span className="text-red-800 font-medium">
+              Could not read {report.source}: {report.parseError}
+            </span>
+          ) : (
+            <span className="text-red-800 font-medium">
+              {report.source}: {invalidRows} of {report.total} records failed validation ({report.issues.length} issues)
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {byRow.length > 0 && (
+            <button
+              onClick={() => setExpanded(v => !v)}
+              className="px-2 py-1 text-xs bg-white text-red-700 border border-red-300 rounded hover:bg-red-100"
+            >
+              {expanded ? 'Hide details' : 'Show details'}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="text-red-400 hover:text-red-600 transition-colors"
+            title="Dismiss"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {expanded && byRow.length > 0 && (
+        <div className="max-h-72 overflow-y-auto border-t border-red-200 bg-white">
+          <table className="min-w-full text-sm">
+            <thead className="bg-red-50 text-xs text-red-700 uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-2 text-left">Row</th>
+                <th className="px-4 py-2 text-left">Record</th>
+                <th className="px-4 py-2 text-left">Field</th>
+                <th className="px-4 py-2 text-left">Problem</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-red-100">
+              {byRow.map(([row, issues]) =>
+                issues.map((issue, i) => (
+                  <tr key={`${row}-${i}`}>
+                    <td className="px-4 py-1 text-gray-500 font-mono">{i === 0 ? row + 1 : ''}</td>
+                    <td className="px-4 py-1 text-gray-900">{i === 0 ? issue.label : ''}</td>
+                    <td className="px-4 py-1 font-mono text-red-700">{issue.field}</td>
+                    <td className="px-4 py-1 text-gray-700">{issue.message}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
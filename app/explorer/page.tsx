@@ -1,131 +1,173 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { parseErrorReport, validateCrosswalk, type CrosswalkValidationReport, type JsonRecord } from '@/lib/crosswalk/schema';
+import { collectKeys, filterIndexes } from '@/lib/crosswalk/filter';
+import { buildRecordIndex } from '@/lib/crosswalk/identity';
+import { ApiError, createRevision, fetchRevision, rollbackRevision } from '@/lib/crosswalk/client';
+import type { RevisionMeta } from '@/lib/crosswalk/store';
+import { diffRecords, type FieldChange } from '@/lib/crosswalk/diff';
+import { emptyHistory, pushEntry, redoEntry, revertField, undoEntry, type EditHistory } from '@/lib/crosswalk/history';
+import { readRecordsFile } from '@/lib/crosswalk/tabular';
+import { computeFacetCounts, hasFacetSelection, matchesFacets, setFacetMode, toggleFacetValue, type FacetSelections } from '@/lib/crosswalk/facets';
+import { sortIndexes, toggleSort, type ArraySortMode, type SortSpec } from '@/lib/crosswalk/sort';
+import { buildExplorerParams, defaultVisibleColumns, loadLayout, parseExplorerParams, saveLayout } from '@/lib/crosswalk/explorer-state';
+import ValidationPanel from './ValidationPanel';
+import RevisionsPanel from './RevisionsPanel';
+import SaveRevisionDialog from './SaveRevisionDialog';
+import CompareView from './CompareView';
+import RowChanges from './RowChanges';
+import ExportDialog from './ExportDialog';
+import FacetSidebar from './FacetSidebar';
 
-// Generic type for any JSON object
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type JsonRecord = Record<string, any>;
+const AUTHOR_STORAGE_KEY = 'crosswalk.author';
+
+function ExplorerContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Search, filters, sort, columns and selection start from the URL (see explorer-state.ts)
+  const [urlState] = useState(() => parseExplorerParams(new URLSearchParams(searchParams.toString())));
+  const pendingUrlColumns = useRef(urlState.columns);
+  const pendingScroll = useRef(urlState.selected !== null);
 
-export default function ExplorerPage() {
   const [rows, setRows] = useState<JsonRecord[]>([]);
-  const [jsonData, setJsonData] = useState<JsonRecord[]>([]);
   const [jsonKeys, setJsonKeys] = useState<string[]>([]);
-  const [q, setQ] = useState('');
-  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
-  const [columnExactMatch, setColumnExactMatch] = useState<Record<string, boolean>>({});
+  // Stable id per row, parallel to rows; assigned on load from the primary key (see identity.ts)
+  const [rowIds, setRowIds] = useState<string[]>([]);
+  const [q, setQ] = useState(urlState.q);
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>(urlState.columnFilters);
+  const [columnExactMatch, setColumnExactMatch] = useState<Record<string, boolean>>(urlState.columnExactMatch);
   const [showSettings, setShowSettings] = useState(false);
   const [visibleColumns, setVisibleColumns] = useState<Record<string, boolean>>({});
   const [editingRowId, setEditingRowId] = useState<string | null>(null);
   const [editingData, setEditingData] = useState<JsonRecord>({});
-  const [editedRows, setEditedRows] = useState<Set<string>>(new Set());
+  const [originalRows, setOriginalRows] = useState<JsonRecord[]>([]);
+  const [history, setHistory] = useState<EditHistory>(emptyHistory);
+  const [expandedChanges, setExpandedChanges] = useState<Set<number>>(new Set());
   const [editingEnabled, setEditingEnabled] = useState(false);
+  const [validation, setValidation] = useState<CrosswalkValidationReport | null>(null);
+  const [revision, setRevision] = useState<RevisionMeta | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [dataSource, setDataSource] = useState('crosswalk.v1.json');
+  const [showCompare, setShowCompare] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [sort, setSort] = useState<SortSpec[]>(urlState.sort);
+  const [arraySortMode, setArraySortMode] = useState<ArraySortMode>('count');
+  const [facets, setFacets] = useState<FacetSelections>(urlState.facets);
+  const [showFacets, setShowFacets] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(urlState.selected);
+  const [datasetKey, setDatasetKey] = useState('crosswalk');
+  const [linkCopied, setLinkCopied] = useState(false);
 
-  // Helper function to get unique row ID
-  const getRowId = (row: JsonRecord, index?: number): string => {
-    // Create a unique identifier combining row data with index for uniqueness
-    let baseId = '';
-    
-    if (row.unsd_code) {
-      baseId = String(row.unsd_code);
-    } else if (row.id) {
-      baseId = String(row.id);
-    } else if (row.indicator) {
-      baseId = String(row.indicator);
-    } else {
-      const firstKey = jsonKeys[0];
-      baseId = firstKey ? String(row[firstKey]) : 'unknown';
-    }
-    
-    // Always include index to ensure uniqueness even with duplicate data
-    return `${baseId}-${index !== undefined ? index : Math.random().toString().substring(2, 8)}`;
-  };
-
-  // Process imported JSON data
-  const processJsonData = (data: JsonRecord[]) => {
+  // Process imported JSON data; `dataset` names the localStorage entry for layout preferences
+  const processJsonData = (data: JsonRecord[], source = 'crosswalk.v1.json', dataset = 'crosswalk') => {
     if (!data || data.length === 0) {
-      setJsonData([]);
       setJsonKeys([]);
       setRows([]);
+      setRowIds([]);
+      setOriginalRows([]);
       setVisibleColumns({});
+      setValidation(null);
       return;
     }
 
+    // Validate every record against the crosswalk schema; rows still load so they can be fixed in place
+    setValidation(validateCrosswalk(data, source));
+    setDataSource(source);
+    setDatasetKey(dataset);
+
     // Get all unique keys from all objects
-    const allKeys = new Set<string>();
-    data.forEach(item => {
-      if (typeof item === 'object' && item !== null) {
-        Object.keys(item).forEach(key => allKeys.add(key));
-      }
-    });
-    
-    const keys = Array.from(allKeys);
-    setJsonData(data);
+    const keys = collectKeys(data);
     setJsonKeys(keys);
     setRows(data); // Keep compatibility with existing code
-    
-    // Set default visible columns (prioritize specific columns)
-    const defaultVisible: Record<string, boolean> = {};
-    const priorityColumns = ['indicator', 'title', 'tier', 'ladmLink', 'externalData'];
-    
-    keys.forEach(key => {
-      // Show priority columns if they exist, otherwise show first few columns
-      defaultVisible[key] = priorityColumns.includes(key);
-    });
-    
-    // If priority columns don't exist (generic JSON), show first 6 columns
-    const visibleCount = Object.values(defaultVisible).filter(Boolean).length;
-    if (visibleCount === 0) {
-      keys.forEach((key, index) => {
-        defaultVisible[key] = index < 6;
+    setRowIds(buildRecordIndex(data).ids);
+    setOriginalRows(data);
+
+    // Visible columns: shared link first, then saved preferences for this dataset, then defaults
+    const visible = defaultVisibleColumns(keys);
+    const layout = loadLayout(dataset);
+    if (layout?.visibleColumns) {
+      keys.forEach(key => {
+        if (key in layout.visibleColumns!) visible[key] = layout.visibleColumns![key];
       });
     }
-    
-    setVisibleColumns(defaultVisible);
-  };
+    if (layout?.arraySortMode) setArraySortMode(layout.arraySortMode);
+    if (layout?.showFacets !== undefined) setShowFacets(layout.showFacets);
+    if (pendingUrlColumns.current) {
+      const fromUrl = pendingUrlColumns.current;
+      keys.forEach(key => {
+        visible[key] = fromUrl.includes(key);
+      });
+      pendingUrlColumns.current = null;
+    }
 
-  // Export JSON functionality (with edits)
-  const exportJsonData = () => {
-    const dataToExport = jsonData.length > 0 ? jsonData : rows;
-    const dataStr = JSON.stringify(dataToExport, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `exported-data-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    setVisibleColumns(visible);
   };
 
   // Edit functions
-  const startEditing = (rowData: JsonRecord) => {
-    const index = rows.findIndex(r => JSON.stringify(r) === JSON.stringify(rowData));
-    setEditingRowId(getRowId(rowData, index));
-    setEditingData({ ...rowData });
+  const startEditing = (index: number) => {
+    setEditingRowId(rowIds[index]);
+    setEditingData({ ...rows[index] });
   };
 
   const saveEdit = () => {
     if (!editingRowId) return;
 
-    setRows(prev => {
-      const idx = prev.findIndex((r, i) => getRowId(r, i) === editingRowId);
-      if (idx === -1) return prev;
-      const next = [...prev];
-      next[idx] = editingData;
-      setJsonData(next);
-      return next;
-    });
+    const idx = indexById.get(editingRowId);
+    if (idx !== undefined && JSON.stringify(rows[idx]) !== JSON.stringify(editingData)) {
+      commitRow(idx, editingData, 'Edit');
+    }
+
+    setEditingRowId(null);
+    setEditingData({});
+  };
+
+  // Every row change goes through here so it lands on the undo stack
+  const replaceRow = (index: number, record: JsonRecord) => {
+    const next = [...rows];
+    next[index] = record;
+    setRows(next);
+  };
+
+  const commitRow = (index: number, record: JsonRecord, label: string) => {
+    setHistory(prev => pushEntry(prev, { index, before: rows[index], after: record, label }));
+    replaceRow(index, record);
+  };
+
+  const undo = () => {
+    const [next, entry] = undoEntry(history);
+    if (!entry) return;
+    setHistory(next);
+    replaceRow(entry.index, entry.before);
+  };
+
+  const redo = () => {
+    const [next, entry] = redoEntry(history);
+    if (!entry) return;
+    setHistory(next);
+    replaceRow(entry.index, entry.after);
+  };
 
-    setEditedRows(prev => {
+  const revertRow = (index: number) => {
+    commitRow(index, originalRows[index], 'Revert row');
+  };
+
+  const revertRowField = (index: number, path: string) => {
+    commitRow(index, revertField(rows[index], originalRows[index] ?? {}, path), `Revert ${path}`);
+  };
+
+  const toggleChanges = (index: number) => {
+    setExpandedChanges(prev => {
       const s = new Set(prev);
-      s.add(editingRowId);
+      if (s.has(index)) s.delete(index);
+      else s.add(index);
       return s;
     });
-
-    setEditingRowId(null);
-    setEditingData({});
   };
 
   const cancelEdit = () => {
@@ -141,85 +183,179 @@ export default function ExplorerPage() {
     }));
   };
 
-  // Import JSON functionality
-  const importJsonData = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Import JSON, CSV or XLSX; spreadsheets are rebuilt into nested records (see tabular.ts)
+  const importData = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const jsonContent = JSON.parse(e.target?.result as string);
-        const dataArray = Array.isArray(jsonContent) ? jsonContent : [jsonContent];
-        processJsonData(dataArray);
-      } catch (error) {
-        alert('Invalid JSON file. Please check the format.');
-        console.error('JSON parse error:', error);
-      }
-    };
-    reader.readAsText(file);
-    
     // Reset file input
     event.target.value = '';
+
+    try {
+      processJsonData(await readRecordsFile(file), file.name, file.name);
+      setRevision(null);
+      clearEdits();
+    } catch (error) {
+      setValidation(parseErrorReport(file.name, error));
+      console.error('Import error:', error);
+    }
   };
 
-  useEffect(() => {
+  const clearEdits = () => {
+    setHistory(emptyHistory);
+    setExpandedChanges(new Set());
+    setEditingRowId(null);
+    setEditingData({});
+  };
+
+  // Static file shipped with the app; used when the revision store is unavailable
+  const loadDefaultData = () =>
     fetch('/data/crosswalk.v1.json', { cache: 'no-store' })
       .then(r => r.json())
-      .then(processJsonData)
-      .catch(() => processJsonData([]));
+      .then(data => {
+        processJsonData(data);
+        setRevision(null);
+        clearEdits();
+      })
+      .catch(error => {
+        processJsonData([]);
+        setValidation(parseErrorReport('crosswalk.v1.json', error));
+      });
+
+  const loadRevision = (version: number | 'latest') =>
+    fetchRevision(version).then(rev => {
+      processJsonData(rev.records, `revision v${rev.version}`);
+      setRevision(rev);
+      clearEdits();
+    });
+
+  const updateAuthor = (value: string) => {
+    setAuthor(value);
+    localStorage.setItem(AUTHOR_STORAGE_KEY, value);
+  };
+
+  const saveToStore = async (message: string) => {
+    try {
+      const meta = await createRevision(rows, author.trim(), message);
+      setRevision(meta);
+      // The saved data becomes the new baseline for change tracking
+      setOriginalRows(rows);
+      clearEdits();
+      setValidation(null);
+      setShowSaveDialog(false);
+    } catch (e) {
+      if (e instanceof ApiError && e.validationReport) {
+        setValidation({ ...e.validationReport, source: 'unsaved edits' });
+      }
+      throw e;
+    }
+  };
+
+  const rollbackTo = async (version: number) => {
+    const meta = await rollbackRevision(version, author.trim());
+    await loadRevision(meta.version);
+  };
+
+  useEffect(() => {
+    setAuthor(localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '');
+    loadRevision('latest').catch(() => loadDefaultData());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const filtered = useMemo(() => {
-    return rows.filter(r => {
-      // Global search filter
-      const okQ = q
-        ? jsonKeys.some(key => {
-            const value = r[key];
-            if (value === null || value === undefined) return false;
-            
-            if (Array.isArray(value)) {
-              return value.join(' ').toLowerCase().includes(q.toLowerCase());
-            } else if (typeof value === 'object') {
-              return JSON.stringify(value).toLowerCase().includes(q.toLowerCase());
-            } else {
-              return String(value).toLowerCase().includes(q.toLowerCase());
-            }
-          })
-        : true;
-
-      // Column-specific filters
-      const okColumnFilters = Object.entries(columnFilters).every(([filterKey, filterValue]) => {
-        if (!filterValue) return true;
-        
-        const value = r[filterKey];
-        if (value === null || value === undefined) return false;
-        
-        const filterValueLower = filterValue.toLowerCase();
-        const isExactMatchForThisColumn = columnExactMatch[filterKey] || false;
-        
-        if (Array.isArray(value)) {
-          const joinedValue = value.join(' ').toLowerCase();
-          return isExactMatchForThisColumn 
-            ? value.some(item => String(item).toLowerCase() === filterValueLower)
-            : joinedValue.includes(filterValueLower);
-        } else if (typeof value === 'object') {
-          const jsonValue = JSON.stringify(value).toLowerCase();
-          return isExactMatchForThisColumn 
-            ? jsonValue === filterValueLower
-            : jsonValue.includes(filterValueLower);
-        } else {
-          const stringValue = String(value).toLowerCase();
-          return isExactMatchForThisColumn 
-            ? stringValue === filterValueLower
-            : stringValue.includes(filterValueLower);
-        }
-      });
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo (text fields keep their own undo)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Per-field differences between each row and the data as it was loaded or last saved
+  const rowChanges = useMemo(() => {
+    const map = new Map<number, FieldChange[]>();
+    rows.forEach((row, i) => {
+      const original = originalRows[i];
+      if (row === original) return;
+      const fields = diffRecords(original ?? {}, row);
+      if (fields.length > 0) map.set(i, fields);
+    });
+    return map;
+  }, [rows, originalRows]);
+
+  const editedCount = rowChanges.size;
+
+  // Mirror the view state into the query string so it survives reloads and can be shared
+  useEffect(() => {
+    if (jsonKeys.length === 0) return;
+    const defaults = defaultVisibleColumns(jsonKeys);
+    const isDefaultLayout = jsonKeys.every(key => Boolean(visibleColumns[key]) === defaults[key]);
+    const params = buildExplorerParams({
+      q,
+      columnFilters,
+      columnExactMatch,
+      facets,
+      sort,
+      columns: isDefaultLayout ? null : jsonKeys.filter(key => visibleColumns[key]),
+      selected: selectedId,
+    });
+    const qs = params.toString();
+    if (qs !== searchParams.toString()) {
+      router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+    }
+  }, [q, columnFilters, columnExactMatch, facets, sort, visibleColumns, selectedId, jsonKeys, searchParams, pathname, router]);
+
+  // Layout preferences persist locally per dataset
+  useEffect(() => {
+    if (jsonKeys.length === 0) return;
+    saveLayout(datasetKey, { visibleColumns, arraySortMode, showFacets });
+  }, [datasetKey, visibleColumns, arraySortMode, showFacets, jsonKeys]);
+
+  // Bring a record selected through a shared link into view once the data is there
+  useEffect(() => {
+    if (!pendingScroll.current || rowIds.length === 0 || !selectedId) return;
+    pendingScroll.current = false;
+    document.querySelector(`[data-row-id="${CSS.escape(selectedId)}"]`)?.scrollIntoView({ block: 'center' });
+  }, [rowIds, selectedId]);
 
-      return okQ && okColumnFilters;
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
     });
+  };
+
+  const indexById = useMemo(() => new Map(rowIds.map((id, i) => [id, i])), [rowIds]);
+
+  // Rows passing search and column filters; facet counts are computed over these
+  const searchMatches = useMemo(() => {
+    return filterIndexes(rows, jsonKeys, { q, columnFilters, columnExactMatch });
   }, [rows, q, columnFilters, jsonKeys, columnExactMatch]);
 
+  const filtered = useMemo(() => {
+    if (!hasFacetSelection(facets)) return searchMatches;
+    return searchMatches.filter(i => matchesFacets(rows[i], facets));
+  }, [rows, searchMatches, facets]);
+
+  const facetCounts = useMemo(() => {
+    return computeFacetCounts(rows, searchMatches, facets);
+  }, [rows, searchMatches, facets]);
+
+  // Filtered rows in display order
+  const sorted = useMemo(() => {
+    return sortIndexes(rows, filtered, sort, arraySortMode);
+  }, [rows, filtered, sort, arraySortMode]);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation Bar */}
@@ -260,11 +396,12 @@ export default function ExplorerPage() {
                   setQ('');
                   setColumnFilters({});
                   setColumnExactMatch({});
+                  setFacets({});
                   setEditingRowId(null);
                   setEditingData({});
                 }}
                 className={`px-3 py-2 text-sm border rounded-md focus:ring-2 transition-colors ${
-                  q || Object.keys(columnFilters).some(key => columnFilters[key]) || Object.values(columnExactMatch).some(Boolean)
+                  q || Object.keys(columnFilters).some(key => columnFilters[key]) || Object.values(columnExactMatch).some(Boolean) || hasFacetSelection(facets)
                     ? 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100 focus:ring-red-500' 
                     : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50 focus:ring-green-500'
                 }`}
@@ -275,27 +412,36 @@ export default function ExplorerPage() {
 
               <div className="flex items-center space-x-2 text-sm text-gray-600">
                 <span>{filtered.length} of {rows.length} records</span>
-                {editedRows.size > 0 && (
+                <button
+                  onClick={undo}
+                  disabled={history.past.length === 0}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={history.past.length > 0 ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={history.future.length === 0}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={history.future.length > 0 ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  ↷ Redo
+                </button>
+                {editedCount > 0 && (
                   <>
                     <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded text-xs">
-                      {editedRows.size} edited
+                      {editedCount} edited
                     </span>
                     <button
                       onClick={() => {
-                        if (confirm('Reset all edits? This will restore original data.')) {
-                          // Reset to original data
-                          fetch('/data/crosswalk.v1.json', { cache: 'no-store' })
-                            .then(r => r.json())
-                            .then(data => {
-                              processJsonData(data);
-                              setEditedRows(new Set());
-                              setEditingRowId(null);
-                              setEditingData({});
-                            });
+                        if (confirm('Reset all edits? This will restore the loaded revision.')) {
+                          setRows(originalRows);
+                          clearEdits();
                         }
                       }}
                       className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 focus:ring-2 focus:ring-red-500"
-                      title="Reset all edits to original data"
+                      title="Reset all edits to the loaded revision"
                     >
                       Reset Edits
                     </button>
@@ -303,7 +449,38 @@ export default function ExplorerPage() {
                 )}
               </div>
               
-              {/* Import JSON */}
+              {/* Revisions */}
+              <button
+                onClick={() => setShowSaveDialog(true)}
+                disabled={editedCount === 0 && revision !== null}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save the current data as a new revision"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setShowRevisions(true)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                title="Browse, load and roll back saved revisions"
+              >
+                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                {revision ? `v${revision.version}` : 'History'}
+              </button>
+
+              <button
+                onClick={() => setShowCompare(true)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                title="Compare two datasets field by field"
+              >
+                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+                Compare
+              </button>
+
+              {/* Import JSON / CSV / XLSX */}
               <label className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer">
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
@@ -311,15 +488,15 @@ export default function ExplorerPage() {
                 Import
                 <input
                   type="file"
-                  accept=".json"
-                  onChange={importJsonData}
+                  accept=".json,.csv,.xlsx"
+                  onChange={importData}
                   className="hidden"
                 />
               </label>
 
-              {/* Export JSON */}
+              {/* Export JSON / CSV / XLSX */}
               <button
-                onClick={exportJsonData}
+                onClick={() => setShowExport(true)}
                 className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -328,6 +505,18 @@ export default function ExplorerPage() {
                 Export
               </button>
 
+              {/* Copy a link to the current view */}
+              <button
+                onClick={copyLink}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                title="Copy a link with the current search, filters, sort, columns and selection"
+              >
+                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                {linkCopied ? 'Copied!' : 'Copy link'}
+              </button>
+
               {/* Settings */}
               <button
                 onClick={() => setShowSettings(true)}
@@ -361,18 +550,44 @@ export default function ExplorerPage() {
           
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <p className="text-blue-800">
-              Import any JSON file to explore its structure and data. Use filters and search to find specific records.
-              Default data: SDG-LADM crosswalk with {rows.length} indicators.
+              Import any JSON, CSV or XLSX file to explore its structure and data. Use filters and search to find specific records.
+              {revision
+                ? <>Loaded revision <strong>v{revision.version}</strong> ({revision.message}, by {revision.author}) with {rows.length} indicators.</>
+                : <>Default data: SDG-LADM crosswalk with {rows.length} indicators.</>}
             </p>
           </div>
         </div>
 
+        {/* Validation Report */}
+        {validation && (
+          <ValidationPanel report={validation} onDismiss={() => setValidation(null)} />
+        )}
+
+        <div className="flex items-start gap-6">
+        {/* Facet Sidebar */}
+        {showFacets && (
+          <FacetSidebar
+            facets={facetCounts}
+            selections={facets}
+            onToggle={(field, value) => setFacets(prev => toggleFacetValue(prev, field, value))}
+            onModeChange={(field, mode) => setFacets(prev => setFacetMode(prev, field, mode))}
+            onClear={() => setFacets({})}
+          />
+        )}
 
         {/* Results Table */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-900">Results</h2>
-            <p className="text-sm text-gray-600">{filtered.length} records found</p>
+        <div className="flex-1 min-w-0 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Results</h2>
+              <p className="text-sm text-gray-600">{filtered.length} records found</p>
+            </div>
+            <button
+              onClick={() => setShowFacets(v => !v)}
+              className="px-3 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {showFacets ? 'Hide facets' : 'Show facets'}
+            </button>
       </div>
 
           <div className="relative">
@@ -400,10 +615,25 @@ export default function ExplorerPage() {
                       .replace(/\b\w/g, l => l.toUpperCase()) // capitalize words
                       .trim();
                     
+                    const sortPos = sort.findIndex(s => s.key === key);
+                    const sortSpec = sortPos === -1 ? null : sort[sortPos];
+
                     return (
                       <th key={key} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         <div className="space-y-2">
-                          <div>{label}</div>
+                          <button
+                            onClick={(e) => setSort(prev => toggleSort(prev, key, e.shiftKey))}
+                            className={`flex items-center uppercase tracking-wider hover:text-gray-700 ${sortSpec ? 'text-gray-900' : ''}`}
+                            title="Click to sort, Shift+click to add a secondary sort"
+                          >
+                            {label}
+                            {sortSpec && (
+                              <span className="ml-1 normal-case">
+                                {sortSpec.dir === 'asc' ? '▲' : '▼'}
+                                {sort.length > 1 && <sup>{sortPos + 1}</sup>}
+                              </span>
+                            )}
+                          </button>
                           <div className="flex items-center space-x-1">
                             <input
                               type="text"
@@ -449,11 +679,14 @@ export default function ExplorerPage() {
             </tr>
           </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {filtered.map((r, idx) => {
-                  const originalIndex = rows.findIndex(row => JSON.stringify(row) === JSON.stringify(r));
-                  const rowId = getRowId(r, originalIndex);
+                {sorted.map((originalIndex, idx) => {
+                  const r = rows[originalIndex];
+                  const rowId = rowIds[originalIndex];
                   const isEditing = editingRowId === rowId;
-                  const isEdited = editedRows.has(rowId);
+                  const isSelected = selectedId === rowId;
+                  const changes = rowChanges.get(originalIndex);
+                  const isEdited = changes !== undefined;
+                  const changedKeys = new Set(changes?.map(f => f.path.split('.')[0]));
 
                   // Satır zemin rengi (sticky hücreyle aynı olmalı)
                   const rowBg = isEditing
@@ -468,7 +701,7 @@ export default function ExplorerPage() {
                   const renderCell = (key: string, value: any) => {
                     if (!visibleColumns[key as keyof typeof visibleColumns]) return null;
 
-                    const baseClasses = "px-6 py-4 align-middle";
+                    const baseClasses = `px-6 py-4 align-middle ${changedKeys.has(key) ? 'ring-2 ring-inset ring-yellow-300' : ''}`;
                     const textClasses = "text-sm text-gray-900";
                     const heightStyle = { minHeight: '73px' };
 
@@ -533,6 +766,17 @@ export default function ExplorerPage() {
                       );
                     }
 
+                    // Indicator codes open the detail page
+                    if (key === 'indicator' && typeof value === 'string' && value) {
+                      return (
+                        <td key={key} className={`${baseClasses} whitespace-nowrap`} style={heightStyle}>
+                          <Link href={`/indicator/${value}`} className={`${textClasses} font-mono text-green-700 hover:underline`}>
+                            {value}
+                          </Link>
+                        </td>
+                      );
+                    }
+
                     // Handle strings
                     if (typeof value === 'string') {
                       return (
@@ -583,7 +827,16 @@ export default function ExplorerPage() {
                   };
                   
                   return (
-                    <tr key={rowId} className={rowBg}>
+                    <Fragment key={rowId}>
+                    <tr
+                      data-row-id={rowId}
+                      className={`${rowBg} cursor-pointer ${isSelected ? 'ring-2 ring-inset ring-green-500' : ''}`}
+                      onClick={(e) => {
+                        // Clicks on controls inside the row keep their own behaviour
+                        if ((e.target as HTMLElement).closest('button, input, textarea, select, a, label')) return;
+                        setSelectedId(current => (current === rowId ? null : rowId));
+                      }}
+                    >
                       {editingEnabled && (
                         <td className={`sticky left-0 z-10 bg-white px-6 py-4 align-middle ${
                           isEditing 
@@ -610,12 +863,20 @@ export default function ExplorerPage() {
                           ) : (
                             <div className="w-full text-center">
                               <button
-                                onClick={() => startEditing(r)}
+                                onClick={() => startEditing(originalIndex)}
                                 className="w-full px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 focus:ring-1 focus:ring-blue-500 mb-1 font-medium"
                               >
                                 Edit
                               </button>
-                              {isEdited && <div className="text-xs text-yellow-600 font-medium">✓</div>}
+                              {isEdited && (
+                                <button
+                                  onClick={() => toggleChanges(originalIndex)}
+                                  className="text-xs text-yellow-700 font-medium hover:underline"
+                                  title="Show original vs current values"
+                                >
+                                  ✓ {changes.length} change{changes.length === 1 ? '' : 's'}
+                                </button>
+                              )}
                             </div>
                           )}
                         </td>
@@ -676,6 +937,15 @@ export default function ExplorerPage() {
                         }
                       })}
               </tr>
+                    {editingEnabled && isEdited && expandedChanges.has(originalIndex) && (
+                      <RowChanges
+                        fields={changes}
+                        colSpan={jsonKeys.filter(k => visibleColumns[k]).length + 1}
+                        onRevertField={(path) => revertRowField(originalIndex, path)}
+                        onRevertRow={() => revertRow(originalIndex)}
+                      />
+                    )}
+                    </Fragment>
                   );
                 })}
           </tbody>
@@ -693,8 +963,54 @@ export default function ExplorerPage() {
             </div>
           )}
         </div>
+        </div>
       </div>
 
+      {showSaveDialog && (
+        <SaveRevisionDialog
+          baseVersion={revision?.version ?? null}
+          editedCount={editedCount}
+          author={author}
+          onAuthorChange={updateAuthor}
+          onSave={saveToStore}
+          onClose={() => setShowSaveDialog(false)}
+        />
+      )}
+
+      {showRevisions && (
+        <RevisionsPanel
+          currentVersion={revision?.version ?? null}
+          author={author}
+          onAuthorChange={updateAuthor}
+          onLoad={(version) => {
+            if (editedCount > 0 && !confirm('Discard unsaved edits and load this revision?')) return;
+            loadRevision(version)
+              .then(() => setShowRevisions(false))
+              .catch((e: Error) => alert(e.message));
+          }}
+          onRollback={rollbackTo}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {showCompare && (
+        <CompareView
+          currentRows={rows}
+          currentLabel={editedCount > 0 ? `${dataSource}, ${editedCount} unsaved edits` : dataSource}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          allRows={rows}
+          filteredRows={sorted.map(i => rows[i])}
+          allKeys={jsonKeys}
+          visibleKeys={jsonKeys.filter(k => visibleColumns[k])}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div 
@@ -742,6 +1058,26 @@ export default function ExplorerPage() {
                     <p className="ml-6 text-xs text-gray-500 mt-1">Allow inline editing of table data</p>
                   </div>
 
+                  {/* Array Sorting Option */}
+                  <div className="pb-3 border-b border-gray-200">
+                    <p className="text-sm text-gray-700 font-medium mb-2">Sort list columns by</p>
+                    <div className="flex space-x-4">
+                      {(['count', 'joined'] as const).map(mode => (
+                        <label key={mode} className="flex items-center">
+                          <input
+                            type="radio"
+                            name="arraySortMode"
+                            checked={arraySortMode === mode}
+                            onChange={() => setArraySortMode(mode)}
+                            className="border-gray-300 text-green-600 focus:ring-green-200"
+                          />
+                          <span className="ml-2 text-sm text-gray-700">{mode === 'count' ? 'Number of items' : 'Joined values'}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Applies to columns such as ladmLink, externalData and joins</p>
+                  </div>
+
                   {/* Column Visibility Options */}
                   <div className="pt-3">
                     <p className="text-sm text-gray-600 mb-3 font-medium">Visible Columns:</p>
@@ -797,3 +1133,12 @@ export default function ExplorerPage() {
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function ExplorerPage() {
+  return (
+    <Suspense fallback={null}>
+      <ExplorerContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,108 @@
+import type { JoinKind } from '@/lib/crosswalk/indicator';
+
+type Props = {
+  indicator: string;
+  sources: string[];
+  joins: Record<JoinKind, string[]>;
+};
+
+const WIDTH = 760;
+const SOURCE = { x: 10, w: 210, h: 28, gap: 10 };
+const JOIN = { x: 290, w: 230, header: 22, line: 18, pad: 8, gap: 16 };
+const TARGET = { x: 600, w: 150, h: 56 };
+
+const JOIN_STYLE: Record<JoinKind, { label: string; fill: string; stroke: string }> = {
+  spatial: { label: 'Spatial join', fill: '#d1fae5', stroke: '#059669' },
+  id: { label: 'ID join', fill: '#dbeafe', stroke: '#2563eb' },
+  time: { label: 'Time join', fill: '#fef3c7', stroke: '#d97706' },
+};
+
+const clip = (s: string, n: number) => (s.length > n ? `${s.slice(0, n - 1)}…` : s);
+
+const curve = (x1: number, y1: number, x2: number, y2: number) => {
+  const mx = (x1 + x2) / 2;
+  return `M${x1},${y1} C${mx},${y1} ${mx},${y2} ${x2},${y2}`;
+};
+
+// externalData → joins.spatial / joins.id / joins.time → indicator
+export default function JoinLineage({ indicator, sources, joins }: Props) {
+  const groups = (Object.keys(JOIN_STYLE) as JoinKind[])
+    .filter(kind => joins[kind].length > 0)
+    .map(kind => ({ kind, values: joins[kind], h: JOIN.header + joins[kind].length * JOIN.line + JOIN.pad }));
+
+  const sourcesH = sources.length * SOURCE.h + Math.max(0, sources.length - 1) * SOURCE.gap;
+  const groupsH = groups.reduce((n, g) => n + g.h, 0) + Math.max(0, groups.length - 1) * JOIN.gap;
+  const height = Math.max(sourcesH, groupsH, TARGET.h) + 20;
+
+  let y = (height - sourcesH) / 2;
+  const sourceNodes = sources.map(name => {
+    const node = { name, y };
+    y += SOURCE.h + SOURCE.gap;
+    return node;
+  });
+
+  y = (height - groupsH) / 2;
+  const groupNodes = groups.map(g => {
+    const node = { ...g, y };
+    y += g.h + JOIN.gap;
+    return node;
+  });
+
+  const targetY = (height - TARGET.h) / 2;
+  const targetMid = targetY + TARGET.h / 2;
+
+  if (sources.length === 0 && groups.length === 0) {
+    return <p className="text-sm text-gray-500">No external data or joins recorded for this indicator.</p>;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Data lineage">
+      <g fill="none" stroke="#9ca3af" strokeWidth={1.5}>
+        {sourceNodes.flatMap(s => {
+          const sy = s.y + SOURCE.h / 2;
+          // Without joins the sources feed the indicator directly
+          if (groupNodes.length === 0) {
+            return [<path key={s.name} d={curve(SOURCE.x + SOURCE.w, sy, TARGET.x, targetMid)} />];
+          }
+          return groupNodes.map(g => (
+            <path key={`${s.name}-${g.kind}`} d={curve(SOURCE.x + SOURCE.w, sy, JOIN.x, g.y + g.h / 2)} />
+          ));
+        })}
+        {groupNodes.map(g => (
+          <path
+            key={g.kind}
+            d={curve(JOIN.x + JOIN.w, g.y + g.h / 2, TARGET.x, targetMid)}
+            stroke={JOIN_STYLE[g.kind].stroke}
+          />
+        ))}
+      </g>
+
+      {sourceNodes.map(s => (
+        <g key={s.name}>
+          <title>{s.name}</title>
+          <rect x={SOURCE.x} y={s.y} width={SOURCE.w} height={SOURCE.h} rx={4} fill="#f3f4f6" stroke="#6b7280" />
+          <text x={SOURCE.x + 8} y={s.y + 18} fontSize={12} fill="#111827">{clip(s.name, 30)}</text>
+        </g>
+      ))}
+
+      {groupNodes.map(g => (
+        <g key={g.kind}>
+          <rect x={JOIN.x} y={g.y} width={JOIN.w} height={g.h} rx={6} fill={JOIN_STYLE[g.kind].fill} stroke={JOIN_STYLE[g.kind].stroke} />
+          <text x={JOIN.x + 8} y={g.y + 16} fontSize={11} fontWeight={600} fill={JOIN_STYLE[g.kind].stroke}>
+            {JOIN_STYLE[g.kind].label} (joins.{g.kind})
+          </text>
+          {g.values.map((v, i) => (
+            <text key={v} x={JOIN.x + 12} y={g.y + JOIN.header + (i + 1) * JOIN.line - 4} fontSize={12} fill="#111827" fontFamily="monospace">
+              <title>{v}</title>
+              {clip(v, 30)}
+            </text>
+          ))}
+        </g>
+      ))}
+
+      <rect x={TARGET.x} y={targetY} width={TARGET.w} height={TARGET.h} rx={8} fill="#16a34a" />
+      <text x={TARGET.x + TARGET.w / 2} y={targetY + 24} fontSize={11} fill="#dcfce7" textAnchor="middle">Indicator</text>
+      <text x={TARGET.x + TARGET.w / 2} y={targetY + 42} fontSize={16} fontWeight={700} fill="#ffffff" textAnchor="middle">{indicator}</text>
+    </svg>
+  );
+}
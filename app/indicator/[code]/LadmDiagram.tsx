@@ -0,0 +1,123 @@
+import { LADM_CLASSES, type LadmClass } from '@/lib/crosswalk/schema';
+import { LADM_ASSOCIATIONS, LADM_CLASS_INFO, type LadmPackage } from '@/lib/crosswalk/ladm';
+
+type Props = {
+  linked: LadmClass[];
+  tenure: LadmClass[];
+};
+
+const BOX_W = 170;
+const BOX_H = 48;
+
+// Party and administrative package on top, spatial and source packages below (as in ISO 19152 overviews)
+const POSITIONS: Record<LadmClass, { x: number; y: number }> = {
+  LA_Party: { x: 20, y: 30 },
+  LA_RRR: { x: 250, y: 30 },
+  LA_BAUnit: { x: 480, y: 30 },
+  LA_Source: { x: 250, y: 200 },
+  LA_SpatialUnit: { x: 480, y: 200 },
+  LA_SpatialUnitGroup: { x: 480, y: 330 },
+};
+
+const PACKAGE_COLORS: Record<LadmPackage, { fill: string; stroke: string }> = {
+  party: { fill: '#fef3c7', stroke: '#d97706' },
+  administrative: { fill: '#dcfce7', stroke: '#16a34a' },
+  spatial: { fill: '#dbeafe', stroke: '#2563eb' },
+  source: { fill: '#f3e8ff', stroke: '#9333ea' },
+};
+
+const center = (c: LadmClass) => ({ x: POSITIONS[c].x + BOX_W / 2, y: POSITIONS[c].y + BOX_H / 2 });
+
+// Point where the line from the box centre towards `toward` leaves the box
+function edgePoint(c: LadmClass, toward: { x: number; y: number }) {
+  const from = center(c);
+  const dx = toward.x - from.x;
+  const dy = toward.y - from.y;
+  const scale = Math.min(
+    dx === 0 ? Infinity : BOX_W / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : BOX_H / 2 / Math.abs(dy)
+  );
+  return { x: from.x + dx * scale, y: from.y + dy * scale };
+}
+
+export default function LadmDiagram({ linked, tenure }: Props) {
+  const isLinked = (c: LadmClass) => linked.includes(c);
+
+  return (
+    <div>
+      <svg viewBox="0 0 670 400" className="w-full h-auto" role="img" aria-label="LADM classes linked to this indicator">
+        {LADM_ASSOCIATIONS.map(a => {
+          const start = edgePoint(a.from, center(a.to));
+          const end = edgePoint(a.to, center(a.from));
+          const active = isLinked(a.from) && isLinked(a.to);
+          const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+          // Multiplicities sit a little inside each end of the line
+          const at = (p: { x: number; y: number }, q: { x: number; y: number }) => ({
+            x: p.x + (q.x - p.x) * 0.15,
+            y: p.y + (q.y - p.y) * 0.15 - 6,
+          });
+          const fromLabel = at(start, end);
+          const toLabel = at(end, start);
+          return (
+            <g key={a.name} opacity={active ? 1 : 0.35}>
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={active ? '#374151' : '#9ca3af'}
+                strokeWidth={active ? 2 : 1}
+                strokeDasharray={active ? undefined : '4 3'}
+              />
+              <text x={mid.x + 4} y={mid.y - 6} fontSize={11} fill="#6b7280" fontStyle="italic">{a.name}</text>
+              <text x={fromLabel.x} y={fromLabel.y} fontSize={10} fill="#374151" textAnchor="middle">{a.fromMultiplicity}</text>
+              <text x={toLabel.x} y={toLabel.y} fontSize={10} fill="#374151" textAnchor="middle">{a.toMultiplicity}</text>
+            </g>
+          );
+        })}
+
+        {LADM_CLASSES.map(c => {
+          const { x, y } = POSITIONS[c];
+          const colors = PACKAGE_COLORS[LADM_CLASS_INFO[c].pkg];
+          const active = isLinked(c);
+          return (
+            <g key={c} opacity={active ? 1 : 0.45}>
+              <title>{LADM_CLASS_INFO[c].description}</title>
+              <rect
+                x={x}
+                y={y}
+                width={BOX_W}
+                height={BOX_H}
+                rx={6}
+                fill={active ? colors.fill : '#f9fafb'}
+                stroke={active ? colors.stroke : '#d1d5db'}
+                strokeWidth={active ? 2 : 1}
+                strokeDasharray={active ? undefined : '4 3'}
+              />
+              <text x={x + BOX_W / 2} y={y + 22} fontSize={14} fontWeight={600} fill="#111827" textAnchor="middle">{c}</text>
+              <text x={x + BOX_W / 2} y={y + 38} fontSize={10} fill="#6b7280" textAnchor="middle">
+                {tenure.includes(c) ? 'tenure semantics' : active ? 'linked' : 'not used'}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+        {(Object.keys(PACKAGE_COLORS) as LadmPackage[]).map(pkg => (
+          <span key={pkg} className="inline-flex items-center">
+            <span
+              className="inline-block w-3 h-3 rounded-sm mr-1 border"
+              style={{ background: PACKAGE_COLORS[pkg].fill, borderColor: PACKAGE_COLORS[pkg].stroke }}
+            />
+            {pkg} package
+          </span>
+        ))}
+        <span className="inline-flex items-center">
+          <span className="inline-block w-4 border-t border-dashed border-gray-400 mr-1" />
+          not linked by this indicator
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import type { JsonRecord } from '@/lib/crosswalk/schema';
+import { isLadmClass } from '@/lib/crosswalk/ladm';
+import {
+  findIndicator,
+  joinValues,
+  listField,
+  sameTargetIndicators,
+  sharedJoinIndicators,
+  type SharedJoin,
+} from '@/lib/crosswalk/indicator';
+import { loadCrosswalk } from '@/lib/crosswalk/store';
+import { STEP_LABELS, checkDefinition, describeExpression, stepFor } from '@/lib/pipeline/engine';
+import { INDICATOR_DEFINITIONS } from '@/lib/pipeline/definitions';
+import LadmDiagram from './LadmDiagram';
+import JoinLineage from './JoinLineage';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: Promise<{ code: string }> };
+
+const RELATED_LIMIT = 12;
+
+const TIER_STYLES: Record<string, string> = {
+  A: 'bg-green-100 text-green-800',
+  B: 'bg-blue-100 text-blue-800',
+  C: 'bg-gray-100 text-gray-700',
+};
+
+const SHARED_STYLES: Record<SharedJoin['kind'], string> = {
+  spatial: 'bg-emerald-100 text-emerald-800',
+  id: 'bg-blue-100 text-blue-800',
+  time: 'bg-amber-100 text-amber-800',
+};
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { code } = await params;
+  return { title: `SDG ${code} – SDG–LADM Demo` };
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 rounded-t-xl">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      </div>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+function Chips({ values, className = 'bg-blue-100 text-blue-800' }: { values: string[]; className?: string }) {
+  if (values.length === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <>
+      {values.map(v => (
+        <span key={v} className={`inline-block text-xs px-2 py-1 rounded mr-1 mb-1 ${className}`}>{v}</span>
+      ))}
+    </>
+  );
+}
+
+function IndicatorLink({ record }: { record: JsonRecord }) {
+  return (
+    <Link href={`/indicator/${record.indicator}`} className="font-mono text-green-700 hover:underline">
+      {record.indicator}
+    </Link>
+  );
+}
+
+export default async function IndicatorPage({ params }: Params) {
+  const { code } = await params;
+  const rows = await loadCrosswalk();
+  const match = findIndicator(rows, code);
+  if (!match) notFound();
+
+  // UNSD codes resolve to the canonical indicator URL
+  if (match.matchedBy === 'unsd_code') redirect(`/indicator/${match.record.indicator}`);
+
+  const record = match.record;
+  const indicator = String(record.indicator);
+  const ladmLink = listField(record.ladmLink).filter(isLadmClass);
+  const tenure = listField(record.tenureSemantics).filter(isLadmClass);
+  const repeatedAs = rows.filter(r => r !== record && r.unsd_code && r.unsd_code === record.unsd_code);
+  const sameTarget = sameTargetIndicators(rows, record);
+  const sharedJoins = sharedJoinIndicators(rows, record);
+  const joins = { spatial: joinValues(record, 'spatial'), id: joinValues(record, 'id'), time: joinValues(record, 'time') };
+  const definitions = INDICATOR_DEFINITIONS[indicator] ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Bar */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 text-sm text-gray-500">
+            <Link href="/" className="hover:text-gray-700">Home</Link>
+            <span className="mx-2">/</span>
+            <Link href={`/explorer?sel=${encodeURIComponent(indicator)}`} className="hover:text-gray-700">Explorer</Link>
+            <span className="mx-2">/</span>
+            <span className="text-gray-900 font-medium">Indicator {indicator}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+            <span className="font-mono text-2xl font-bold text-gray-900 mr-2">{indicator}</span>
+            <span className={`px-2 py-0.5 rounded font-medium ${TIER_STYLES[record.tier] ?? TIER_STYLES.C}`}>Tier {record.tier}</span>
+            <span className="text-gray-500">Goal {record.goal} · Target {record.target}</span>
+            {record.unsd_code && <span className="font-mono text-gray-500">{record.unsd_code}</span>}
+          </div>
+          <h1 className="text-xl text-gray-800 max-w-4xl">{record.title}</h1>
+          {repeatedAs.length > 0 && (
+            <p className="text-sm text-gray-500 mt-2">
+              Repeated UN indicator, also reported as{' '}
+              {repeatedAs.map((r, i) => (
+                <span key={r.indicator}>
+                  {i > 0 && ', '}
+                  <IndicatorLink record={r} />
+                </span>
+              ))}
+              .
+            </p>
+          )}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Section title="Rationale">
+              <p className="text-gray-700">{record.rationale || <span className="text-gray-400">—</span>}</p>
+              {record.edgeCase && (
+                <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-900">
+                  <span className="font-medium">Edge case: </span>
+                  {record.edgeCase}
+                </div>
+              )}
+            </Section>
+          </div>
+          <Section title="Record">
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Geometry of interest</dt>
+                <dd><Chips values={listField(record.geometryOfInterest)} /></dd>
+              </div>
+              <div>
+                <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Tenure semantics</dt>
+                <dd><Chips values={listField(record.tenureSemantics)} className="bg-green-100 text-green-800" /></dd>
+              </div>
+              <div>
+                <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">References</dt>
+                <dd>
+                  {listField(record.references).length > 0 ? (
+                    <ul className="list-disc list-inside text-gray-700">
+                      {listField(record.references).map(ref => <li key={ref}>{ref}</li>)}
+                    </ul>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </dd>
+              </div>
+            </dl>
+          </Section>
+        </div>
+
+        <Section title="LADM classes">
+          <LadmDiagram linked={ladmLink} tenure={tenure} />
+        </Section>
+
+        <Section title="Data lineage">
+          <JoinLineage
+            indicator={indicator}
+            sources={listField(record.externalData)}
+            joins={joins}
+          />
+        </Section>
+
+        <Section title="Computation pipeline">
+          {joins.spatial.length > 0 ? (
+            <ul className="space-y-1 text-sm mb-4">
+              {joins.spatial.map(join => {
+                const kind = stepFor(join);
+                return (
+                  <li key={join}>
+                    <span className="inline-block text-xs px-2 py-0.5 rounded mr-2 bg-emerald-100 text-emerald-800">{join}</span>
+                    {kind ? <span className="text-gray-700">{STEP_LABELS[kind]}</span> : <span className="text-gray-400">No step yet</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 mb-4">No spatial joins recorded.</p>
+          )}
+          {definitions.length > 0 ? (
+            definitions.map(definition => {
+              const definitionIssues = checkDefinition(definition, joins);
+              return (
+                <div key={definition.label} className="text-sm mb-4 last:mb-0">
+                  <p className="font-medium text-gray-900 mb-2">Definition: {definition.label}</p>
+                  <table className="w-full mb-3">
+                    <thead>
+                      <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="py-1 text-left font-medium">Quantity</th>
+                        <th className="py-1 text-left font-medium">Join</th>
+                        <th className="py-1 text-left font-medium">Input</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {Object.entries(definition.quantities).map(([name, spec]) => (
+                        <tr key={name}>
+                          <td className="py-1 font-mono text-gray-900">{name}</td>
+                          <td className="py-1 font-mono text-gray-700">{spec.join}</td>
+                          <td className="py-1 font-mono text-gray-700">{spec.input}{spec.with && ` · with ${spec.with}`}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="font-mono text-gray-700">
+                    {definition.scale && definition.scale !== 1 ? `${definition.scale} × ` : ''}
+                    {describeExpression(definition.numerator)} ÷ {describeExpression(definition.denominator)}
+                  </p>
+                  {definitionIssues.length > 0 && (
+                    <ul className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-900 list-disc list-inside">
+                      {definitionIssues.map(issue => <li key={issue}>{issue}</li>)}
+                    </ul>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-gray-500">No pipeline definition for this indicator yet.</p>
+          )}
+        </Section>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Section title={`Same target (${record.target})`}>
+            {sameTarget.length > 0 ? (
+              <ul className="space-y-2 text-sm">
+                {sameTarget.map(r => (
+                  <li key={r.indicator}>
+                    <IndicatorLink record={r} />
+                    <span className="ml-2 text-gray-700">{r.title}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No other indicators under this target.</p>
+            )}
+          </Section>
+
+          <Section title={`Shared join operations (${sharedJoins.length})`}>
+            {sharedJoins.length > 0 ? (
+              <ul className="space-y-2 text-sm">
+                {sharedJoins.slice(0, RELATED_LIMIT).map(({ record: r, shared }) => (
+                  <li key={r.indicator}>
+                    <IndicatorLink record={r} />
+                    <span className="ml-2">
+                      {shared.map(s => (
+                        <Link
+                          key={`${s.kind}-${s.value}`}
+                          href={`/explorer?q=${encodeURIComponent(s.value)}`}
+                          title={`joins.${s.kind}`}
+                          className={`inline-block text-xs px-2 py-0.5 rounded mr-1 hover:underline ${SHARED_STYLES[s.kind]}`}
+                        >
+                          {s.value}
+                        </Link>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+                {sharedJoins.length > RELATED_LIMIT && (
+                  <li className="text-gray-500">+{sharedJoins.length - RELATED_LIMIT} more</li>
+                )}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No other indicator shares a spatial or id join.</p>
+            )}
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Graph, GraphNode, NodeKind, Point } from '@/lib/crosswalk/graph';
+
+export const GRAPH_WIDTH = 1000;
+export const GRAPH_HEIGHT = 700;
+
+export const KIND_COLORS: Record<NodeKind, string> = {
+  goal: '#2563eb',
+  target: '#60a5fa',
+  indicator: '#9ca3af',
+  ladm: '#16a34a',
+  geometry: '#d97706',
+  source: '#9333ea',
+};
+
+type Props = {
+  graph: Graph;
+  positions: Map<string, Point>;
+  onSelect: (node: GraphNode) => void;
+};
+
+// Node area grows with the number of records behind it
+const radius = (node: GraphNode) => Math.min(24, 3 + 2 * Math.sqrt(node.rows.length));
+
+export default function NetworkGraph({ graph, positions, onSelect }: Props) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const neighbours = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    graph.edges.forEach(e => {
+      if (!map.has(e.source)) map.set(e.source, new Set());
+      if (!map.has(e.target)) map.set(e.target, new Set());
+      map.get(e.source)!.add(e.target);
+      map.get(e.target)!.add(e.source);
+    });
+    return map;
+  }, [graph]);
+
+  const maxWeight = Math.max(1, ...graph.edges.map(e => e.weight));
+  const isActive = (id: string) => !hovered || id === hovered || neighbours.get(hovered)?.has(id);
+
+  // Large hierarchy kinds stay unlabelled unless hovered; everything else is labelled when big enough
+  const showLabel = (node: GraphNode) =>
+    node.id === hovered ||
+    node.kind === 'goal' ||
+    node.kind === 'ladm' ||
+    ((node.kind === 'geometry' || node.kind === 'source') && radius(node) >= 7);
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+      className="w-full h-auto bg-white"
+      role="img"
+      aria-label="Network of indicators, LADM classes and data sources"
+    >
+      <g>
+        {graph.edges.map(e => {
+          const a = positions.get(e.source);
+          const b = positions.get(e.target);
+          if (!a || !b) return null;
+          const active = !hovered || e.source === hovered || e.target === hovered;
+          return (
+            <line
+              key={`${e.source}|${e.target}`}
+              x1={a.x}
+              y1={a.y}
+              x2={b.x}
+              y2={b.y}
+              stroke={active && hovered ? '#374151' : '#9ca3af'}
+              strokeOpacity={active ? 0.25 + 0.6 * (e.weight / maxWeight) : 0.05}
+              strokeWidth={1 + 3 * (e.weight / maxWeight)}
+            />
+          );
+        })}
+      </g>
+
+      <g>
+        {graph.nodes.map(node => {
+          const p = positions.get(node.id);
+          if (!p) return null;
+          const r = radius(node);
+          const active = isActive(node.id);
+          return (
+            <g
+              key={node.id}
+              className="cursor-pointer"
+              opacity={active ? 1 : 0.15}
+              onMouseEnter={() => setHovered(node.id)}
+              onMouseLeave={() => setHovered(null)}
+              onClick={() => onSelect(node)}
+            >
+              <title>{`${node.label} (${node.field ?? node.kind}) – ${node.rows.length} record${node.rows.length === 1 ? '' : 's'}`}</title>
+              <circle cx={p.x} cy={p.y} r={r} fill={KIND_COLORS[node.kind]} stroke="#ffffff" strokeWidth={1} />
+              {showLabel(node) && (
+                <text x={p.x + r + 3} y={p.y + 4} fontSize={11} fill="#111827" stroke="#ffffff" strokeWidth={3} paintOrder="stroke">
+                  {node.kind === 'goal' ? `SDG ${node.label}` : node.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,307 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { JsonRecord } from '@/lib/crosswalk/schema';
+import { TIERS } from '@/lib/crosswalk/schema';
+import { fetchRevision } from '@/lib/crosswalk/client';
+import { readRecordsFile } from '@/lib/crosswalk/tabular';
+import { naturalCompare } from '@/lib/crosswalk/sort';
+import { buildRecordIndex } from '@/lib/crosswalk/identity';
+import { explorerHref } from '@/lib/crosswalk/explorer-state';
+import {
+  ATTRIBUTE_KINDS,
+  HIERARCHY_KINDS,
+  buildGraph,
+  layoutGraph,
+  type GraphNode,
+  type NodeKind,
+} from '@/lib/crosswalk/graph';
+import NetworkGraph, { GRAPH_HEIGHT, GRAPH_WIDTH, KIND_COLORS } from './NetworkGraph';
+
+const KIND_LABELS: Record<NodeKind, string> = {
+  goal: 'Goals',
+  target: 'Targets',
+  indicator: 'Indicators',
+  ladm: 'LADM classes',
+  geometry: 'Geometry types',
+  source: 'External data',
+};
+
+const DEFAULT_KINDS: NodeKind[] = ['goal', 'ladm', 'geometry', 'source'];
+
+// Explorer view showing the records behind a node; attribute nodes facet on their source field
+function nodeExplorerHref(node: GraphNode): string {
+  if (node.kind === 'target') {
+    return explorerHref({ columnFilters: { target: node.label }, columnExactMatch: { target: true } });
+  }
+  if (node.kind === 'indicator') return explorerHref({ selected: node.label });
+  return explorerHref({ facets: { [node.field ?? node.kind]: { values: [node.label], mode: 'any' } } });
+}
+
+export default function NetworkPage() {
+  const [rows, setRows] = useState<JsonRecord[]>([]);
+  const [dataSource, setDataSource] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const [tiers, setTiers] = useState<string[]>([...TIERS]);
+  const [goal, setGoal] = useState('');
+  const [kinds, setKinds] = useState<NodeKind[]>(DEFAULT_KINDS);
+  const [minRecords, setMinRecords] = useState(2);
+  // Clicked nodes, outermost first; each one narrows the graph to its records
+  const [focusPath, setFocusPath] = useState<GraphNode[]>([]);
+
+  const loadData = (records: JsonRecord[], source: string) => {
+    setRows(records);
+    setDataSource(source);
+    setFocusPath([]);
+    setGoal('');
+    setError(null);
+  };
+
+  useEffect(() => {
+    fetchRevision('latest')
+      .then(rev => loadData(rev.records, `revision v${rev.version}`))
+      .catch(() =>
+        fetch('/data/crosswalk.v1.json', { cache: 'no-store' })
+          .then(r => r.json())
+          .then(data => loadData(data, 'crosswalk.v1.json'))
+          .catch(e => setError(`Could not load the crosswalk: ${e instanceof Error ? e.message : String(e)}`))
+      );
+  }, []);
+
+  const importData = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = '';
+    try {
+      loadData(await readRecordsFile(file), file.name);
+    } catch (e) {
+      setError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const goals = useMemo(
+    () => Array.from(new Set(rows.map(r => r.goal).filter(Boolean).map(String))).sort(naturalCompare),
+    [rows]
+  );
+
+  const indexes = useMemo(() => {
+    const focus = focusPath[focusPath.length - 1];
+    const candidates = focus ? focus.rows : rows.map((_, i) => i);
+    // Records without a tier or goal (generic datasets) are not filtered out by those controls
+    return candidates.filter(i => {
+      const r = rows[i];
+      if (r.tier && !tiers.includes(String(r.tier))) return false;
+      if (goal && r.goal !== undefined && String(r.goal) !== goal) return false;
+      return true;
+    });
+  }, [rows, tiers, goal, focusPath]);
+
+  const graph = useMemo(() => buildGraph(rows, { kinds, minRecords, indexes }), [rows, kinds, minRecords, indexes]);
+  const positions = useMemo(() => layoutGraph(graph, GRAPH_WIDTH, GRAPH_HEIGHT), [graph]);
+
+  const kindCounts = useMemo(() => {
+    const counts: Partial<Record<NodeKind, number>> = {};
+    graph.nodes.forEach(n => (counts[n.kind] = (counts[n.kind] ?? 0) + 1));
+    return counts;
+  }, [graph]);
+
+  const recordIds = useMemo(() => buildRecordIndex(rows).ids, [rows]);
+
+  // Heaviest attribute nodes: which LADM classes and sources carry the most indicators
+  const topNodes = useMemo(
+    () =>
+      graph.nodes
+        .filter(n => ATTRIBUTE_KINDS.includes(n.kind))
+        .sort((a, b) => b.rows.length - a.rows.length)
+        .slice(0, 10),
+    [graph]
+  );
+
+  const focus = focusPath[focusPath.length - 1];
+
+  const toggleKind = (kind: NodeKind) => {
+    setKinds(prev => {
+      const next = prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind];
+      // Attributes need a hierarchy level to hang off
+      return next.some(k => HIERARCHY_KINDS.includes(k)) ? next : prev;
+    });
+  };
+
+  const toggleTier = (tier: string) =>
+    setTiers(prev => (prev.includes(tier) ? prev.filter(t => t !== tier) : [...prev, tier]));
+
+  const selectNode = (node: GraphNode) => {
+    if (focus?.id === node.id) return;
+    setFocusPath(prev => [...prev, node]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Bar */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="text-sm text-gray-500">
+              <Link href="/" className="hover:text-gray-700">Home</Link>
+              <span className="mx-2">/</span>
+              <span className="text-gray-900 font-medium">Network</span>
+              {dataSource && <span className="ml-3 text-xs text-gray-400">{dataSource}</span>}
+            </div>
+            <label className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              Import
+              <input type="file" accept=".json,.csv,.xlsx" onChange={importData} className="hidden" />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="flex gap-6">
+          {/* Controls */}
+          <aside className="w-64 flex-shrink-0 space-y-4">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+              <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Nodes</h2>
+              {[...HIERARCHY_KINDS, ...ATTRIBUTE_KINDS].map(kind => (
+                <label key={kind} className="flex items-center text-sm py-0.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={kinds.includes(kind)}
+                    onChange={() => toggleKind(kind)}
+                    className="rounded border-gray-300 text-green-600 shadow-sm focus:ring-green-200"
+                  />
+                  <span className="inline-block w-3 h-3 rounded-full ml-2" style={{ background: KIND_COLORS[kind] }} />
+                  <span className="ml-2 flex-1 text-gray-700">{KIND_LABELS[kind]}</span>
+                  <span className="text-xs text-gray-500 font-mono">{kindCounts[kind] ?? 0}</span>
+                </label>
+              ))}
+              <label className="block text-sm text-gray-700 mt-3">
+                Hide attributes used by fewer than {minRecords} record{minRecords === 1 ? '' : 's'}
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  value={minRecords}
+                  onChange={e => setMinRecords(Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+              <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Filter</h2>
+              <div className="flex gap-3 mb-3">
+                {TIERS.map(tier => (
+                  <label key={tier} className="flex items-center text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={tiers.includes(tier)}
+                      onChange={() => toggleTier(tier)}
+                      className="rounded border-gray-300 text-green-600 shadow-sm focus:ring-green-200"
+                    />
+                    <span className="ml-1 text-gray-700">Tier {tier}</span>
+                  </label>
+                ))}
+              </div>
+              <select
+                value={goal}
+                onChange={e => setGoal(e.target.value)}
+                className="w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 text-gray-900"
+              >
+                <option value="">All goals</option>
+                {goals.map(g => (
+                  <option key={g} value={g}>SDG {g}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+              <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Most connected</h2>
+              <ul className="space-y-1 text-sm">
+                {topNodes.map(n => (
+                  <li key={n.id} className="flex items-center">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: KIND_COLORS[n.kind] }} />
+                    <button onClick={() => selectNode(n)} className="flex-1 text-left truncate text-gray-700 hover:underline" title={n.field ? `${n.label} (${n.field})` : n.label}>
+                      {n.label}
+                    </button>
+                    <span className="text-xs text-gray-500 font-mono">{n.rows.length}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </aside>
+
+          {/* Graph */}
+          <div className="flex-1 min-w-0 space-y-4">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center flex-wrap gap-2 text-sm">
+                <span className="text-gray-600">
+                  {indexes.length} record{indexes.length === 1 ? '' : 's'} · {graph.nodes.length} nodes · {graph.edges.length} edges
+                </span>
+                {focusPath.length > 0 && (
+                  <>
+                    <span className="text-gray-400">|</span>
+                    {focusPath.map((node, i) => (
+                      <button
+                        key={node.id}
+                        onClick={() => setFocusPath(focusPath.slice(0, i + 1))}
+                        className="px-2 py-0.5 rounded bg-green-100 text-green-800 hover:bg-green-200"
+                      >
+                        {node.label}
+                      </button>
+                    ))}
+                    <button onClick={() => setFocusPath([])} className="text-xs text-red-600 hover:text-red-800">
+                      Clear
+                    </button>
+                  </>
+                )}
+                <span className="ml-auto text-xs text-gray-500">Click a node to show only its indicators</span>
+              </div>
+              {rows.length > 0 ? (
+                <NetworkGraph graph={graph} positions={positions} onSelect={selectNode} />
+              ) : (
+                <p className="p-6 text-sm text-gray-500">{error ? 'No data loaded.' : 'Loading…'}</p>
+              )}
+            </div>
+
+            {focus && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-gray-900">
+                    {KIND_LABELS[focus.kind]}: {focus.label}
+                    {focus.kind === 'ladm' && focus.field && <span className="ml-1 font-normal text-gray-500">in {focus.field}</span>}
+                  </h2>
+                  <Link href={nodeExplorerHref(focus)} className="text-sm text-green-700 hover:underline">
+                    Open in explorer
+                  </Link>
+                </div>
+                <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                  {indexes.map(i => (
+                    <li key={recordIds[i]} className="px-4 py-2 text-sm">
+                      {rows[i].indicator ? (
+                        <Link href={`/indicator/${rows[i].indicator}`} className="font-mono text-green-700 hover:underline">
+                          {rows[i].indicator}
+                        </Link>
+                      ) : (
+                        <span className="font-mono text-gray-700">{recordIds[i]}</span>
+                      )}
+                      {rows[i].title && <span className="ml-2 text-gray-700">{rows[i].title}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 import Link from 'next/link';
+import { loadCrosswalk } from '@/lib/crosswalk/store';
+import { computeStats } from '@/lib/crosswalk/stats';
+import CoverageDashboard from './CoverageDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Home() {
+  const stats = await loadCrosswalk()
+    .then(computeStats)
+    .catch(error => {
+      console.error(error);
+      return null;
+    });
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
       {/* Hero Section */}
@@ -22,7 +34,7 @@ export default function Home() {
 
       {/* Features Cards */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-20">
-        <div className="grid md:grid-cols-2 gap-8">
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
           {/* Demo Card */}
           <Link 
             href="/demo-1131" 
@@ -54,6 +66,68 @@ export default function Home() {
             </div>
           </Link>
 
+          {/* Tenure Demo Card */}
+          <Link 
+            href="/demo-tenure" 
+            className="group bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden border border-gray-100 hover:border-amber-200"
+          >
+            <div className="p-8">
+              <div className="flex items-center mb-4">
+                <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center group-hover:bg-amber-200 transition-colors">
+                  <svg className="w-6 h-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                </div>
+                <div className="ml-4">
+                  <h2 className="text-xl font-semibold text-gray-900 group-hover:text-amber-600 transition-colors">
+                    SDG 1.4.2 &amp; 5.a.1 Demo
+                  </h2>
+                  <span className="text-sm text-amber-600 font-medium">Tenure Security</span>
+                </div>
+              </div>
+              <p className="text-gray-600 mb-4">
+                Share of adults and agricultural households with legally documented land rights, computed from LADM records.
+              </p>
+              <div className="flex items-center text-amber-600 font-medium group-hover:translate-x-1 transition-transform">
+                Explore Demo
+                <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
+          {/* SDG 11.7.1 Demo Card */}
+          <Link 
+            href="/demo-1171" 
+            className="group bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden border border-gray-100 hover:border-emerald-200"
+          >
+            <div className="p-8">
+              <div className="flex items-center mb-4">
+                <div className="w-12 h-12 bg-emerald-100 rounded-xl flex items-center justify-center group-hover:bg-emerald-200 transition-colors">
+                  <svg className="w-6 h-6 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                </div>
+                <div className="ml-4">
+                  <h2 className="text-xl font-semibold text-gray-900 group-hover:text-emerald-600 transition-colors">
+                    SDG 11.7.1 Demo
+                  </h2>
+                  <span className="text-sm text-emerald-600 font-medium">Open Public Space</span>
+                </div>
+              </div>
+              <p className="text-gray-600 mb-4">
+                Share of the built-up area that is open public space, and of population within walking distance of it, from LADM public-access rights.
+              </p>
+              <div className="flex items-center text-emerald-600 font-medium group-hover:translate-x-1 transition-transform">
+                Explore Demo
+                <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
           {/* Explorer Card */}
           <Link 
             href="/explorer" 
@@ -84,24 +158,49 @@ export default function Home() {
               </div>
             </div>
           </Link>
-        </div>
 
-        {/* Stats Section */}
-        <div className="mt-16 bg-white rounded-2xl shadow-lg p-8 border border-gray-100">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            <div className="text-center">
-              <div className="text-3xl font-bold text-blue-600 mb-2">17</div>
-              <div className="text-gray-600">SDG Goals</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-green-600 mb-2">251</div>
-              <div className="text-gray-600">SDG Targets</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-purple-600 mb-2">ISO 19152</div>
-              <div className="text-gray-600">LADM Standard</div>
+          {/* Network Card */}
+          <Link 
+            href="/network" 
+            className="group bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden border border-gray-100 hover:border-purple-200"
+          >
+            <div className="p-8">
+              <div className="flex items-center mb-4">
+                <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center group-hover:bg-purple-200 transition-colors">
+                  <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <circle cx="6" cy="6" r="2" strokeWidth={2} />
+                    <circle cx="18" cy="8" r="2" strokeWidth={2} />
+                    <circle cx="10" cy="18" r="2" strokeWidth={2} />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 6.5l8 1M7 8l2.5 8M16.5 9.5l-5 7" />
+                  </svg>
+                </div>
+                <div className="ml-4">
+                  <h2 className="text-xl font-semibold text-gray-900 group-hover:text-purple-600 transition-colors">
+                    Indicator Network
+                  </h2>
+                  <span className="text-sm text-purple-600 font-medium">Graph View</span>
+                </div>
+              </div>
+              <p className="text-gray-600 mb-4">
+                Goals, indicators, LADM classes, geometry types and external data sources as a graph, sized by how many indicators use them.
+              </p>
+              <div className="flex items-center text-purple-600 font-medium group-hover:translate-x-1 transition-transform">
+                Open Network
+                <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
             </div>
-          </div>
+          </Link>
+        </div>
+
+        {/* Coverage dashboard, computed from the latest crosswalk revision */}
+        <div className="mt-16">
+          {stats ? (
+            <CoverageDashboard stats={stats} />
+          ) : (
+            <p className="text-center text-gray-500">Crosswalk statistics are unavailable.</p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,53 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { CRS_PRESETS, geodesicArea, projError, projectedArea, utmProj } from './area';
+import { box, relative } from './test-geometry';
+
+const preset = (id: string) => CRS_PRESETS.find(p => p.id === id)!.proj;
+
+// About 2 km across, on the central meridian of UTM zone 35 (27° E)
+const site = box(26.99, 41, 27.01, 41.02);
+
+describe('projectedArea', () => {
+  it('agrees with the geodesic area in an equal-area projection', () => {
+    expect(relative(projectedArea(preset('EPSG:3035'))(site), geodesicArea(site))).toBeLessThan(0.005);
+    expect(relative(projectedArea(preset('ESRI:54009'))(site), geodesicArea(site))).toBeLessThan(0.005);
+  });
+
+  it('shrinks areas on the UTM central meridian by the square of the scale factor', () => {
+    const utm = projectedArea(utmProj(27, 41))(site);
+    const laea = projectedArea(preset('EPSG:3035'))(site);
+    expect(utm / laea).toBeCloseTo(0.9996 ** 2, 4);
+  });
+
+  it('subtracts holes and adds up multipolygon parts', () => {
+    const area = projectedArea(preset('EPSG:3035'));
+    const hole = box(26.995, 41.005, 27.005, 41.015);
+    const ring = turf.polygon([site.geometry.coordinates[0], [...hole.geometry.coordinates[0]].reverse()]);
+    expect(relative(area(ring), area(site) - area(hole))).toBeLessThan(1e-9);
+    const parts = turf.multiPolygon([site.geometry.coordinates, box(28, 41, 28.01, 41.01).geometry.coordinates]);
+    expect(relative(area(parts), area(site) + area(box(28, 41, 28.01, 41.01)))).toBeLessThan(1e-9);
+  });
+});
+
+describe('utmProj', () => {
+  it('picks the zone and hemisphere of a position', () => {
+    expect(utmProj(27, 41)).toBe('+proj=utm +zone=35 +datum=WGS84 +units=m +no_defs');
+    expect(utmProj(-43.2, -22.9)).toBe('+proj=utm +zone=23 +south +datum=WGS84 +units=m +no_defs');
+    expect(utmProj(180, 0)).toContain('+zone=60 ');
+  });
+});
+
+describe('projError', () => {
+  it('accepts the presets and metric projections', () => {
+    CRS_PRESETS.filter(p => p.proj !== 'utm').forEach(p => expect(projError(p.proj)).toBeNull());
+    expect(projError(utmProj(27, 41))).toBeNull();
+  });
+
+  it('explains empty, unknown and non-metric projections', () => {
+    expect(projError(' ')).toMatch(/^Enter a proj string/);
+    expect(projError('+proj=nonsense')).not.toBeNull();
+    expect(projError('+proj=longlat +datum=WGS84 +no_defs')).toBe('The projection must use metres');
+    expect(projError('+proj=utm +zone=35 +datum=WGS84 +units=km')).toBe('The projection must use metres');
+  });
+});
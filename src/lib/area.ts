@@ -0,0 +1,78 @@
+import * as turf from '@turf/turf';
+import proj4 from 'proj4';
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+
+// Measures a (Multi)Polygon in WGS84 lon/lat and returns m²
+export type AreaMeasure = (feature: Feature<Polygon | MultiPolygon>) => number;
+
+// Spherical approximation (turf)
+export const geodesicArea: AreaMeasure = feature => turf.area(feature);
+
+export type CrsPreset = {
+  id: string;
+  label: string;
+  proj: string; // proj string; 'utm' picks the zone of the data
+};
+
+export const CRS_PRESETS: CrsPreset[] = [
+  { id: 'utm', label: 'UTM zone of the data (WGS 84)', proj: 'utm' },
+  {
+    id: 'EPSG:3035',
+    label: 'ETRS89 / LAEA Europe (EPSG:3035)',
+    proj: '+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 +units=m +no_defs',
+  },
+  {
+    id: 'EPSG:5254',
+    label: 'TUREF / TM30 (EPSG:5254)',
+    proj: '+proj=tmerc +lat_0=0 +lon_0=30 +k=1 +x_0=500000 +y_0=0 +ellps=GRS80 +units=m +no_defs',
+  },
+  {
+    id: 'ESRI:54009',
+    label: 'World Mollweide (ESRI:54009)',
+    proj: '+proj=moll +lon_0=0 +x_0=0 +y_0=0 +datum=WGS84 +units=m +no_defs',
+  },
+];
+
+export function utmProj(lon: number, lat: number): string {
+  const zone = Math.min(60, Math.floor((lon + 180) / 6) + 1);
+  return `+proj=utm +zone=${zone}${lat < 0 ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`;
+}
+
+// Error message for a proj string proj4 cannot use, otherwise null
+export function projError(proj: string): string | null {
+  if (proj.trim() === '') return 'Enter a proj string, e.g. +proj=utm +zone=35 +datum=WGS84 +units=m';
+  try {
+    const [x, y] = proj4('EPSG:4326', proj).forward([0, 0]);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return 'The projection gives no coordinates';
+    if (/\+units=(?!m\b)/.test(proj) || /\+proj=longlat/.test(proj)) return 'The projection must use metres';
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Shoelace area of a ring in projected coordinates
+function ringArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(sum) / 2;
+}
+
+// Planar area after reprojecting into `proj`; holes are subtracted. Only an equal-area
+// projection gives true areas, conformal ones (UTM, TM) are off by their scale factor.
+export function projectedArea(proj: string): AreaMeasure {
+  const { forward } = proj4('EPSG:4326', proj);
+  const polygonArea = (rings: Position[][]) =>
+    rings.reduce((sum, ring, i) => {
+      const area = ringArea(ring.map(p => forward([p[0], p[1]])));
+      return i === 0 ? sum + area : sum - area;
+    }, 0);
+
+  return feature => {
+    const { geometry } = feature;
+    if (geometry.type === 'Polygon') return polygonArea(geometry.coordinates);
+    return geometry.coordinates.reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+  };
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LADM_CLASSES, TIERS } from './schema';
+
+// Shared error envelope for every crosswalk route: { error: { status, message, details? } }
+export function jsonError(status: number, message: string, details?: unknown) {
+  return NextResponse.json(
+    { error: { status, message, ...(details !== undefined ? { details } : {}) } },
+    { status }
+  );
+}
+
+export const MAX_PAGE_SIZE = 500;
+
+export const listQuerySchema = z.object({
+  q: z.string().optional(),
+  goal: z.string().optional(),
+  target: z.string().optional(),
+  tier: z.enum(TIERS).optional(),
+  ladmLink: z.enum(LADM_CLASSES).optional(),
+  geometryOfInterest: z.string().optional(),
+  externalData: z.string().optional(),
+  spatialJoin: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+});
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+// Query strings repeat keys freely; only the first value of each filter is used
+export function searchParamsToObject(params: URLSearchParams): Record<string, string> {
+  const out: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (!(key in out) && value !== '') out[key] = value;
+  });
+  return out;
+}
+
+const authorSchema = z.string().trim().min(1, 'Author is required').max(100);
+
+export const saveRevisionSchema = z.object({
+  records: z.array(z.record(z.string(), z.unknown())),
+  author: authorSchema,
+  message: z.string().trim().min(1, 'Message is required').max(500),
+});
+
+export const rollbackSchema = z.object({
+  author: authorSchema,
+  message: z.string().trim().max(500).optional(),
+});
+
+// "latest" or a positive revision number (with or without a leading "v")
+export function parseVersionParam(value: string): number | 'latest' | null {
+  if (value === 'latest') return 'latest';
+  const m = /^v?(\d+)$/.exec(value);
+  return m && Number(m[1]) > 0 ? Number(m[1]) : null;
+}
+
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,51 @@
+import type { CrosswalkValidationReport, JsonRecord } from './schema';
+import type { Revision, RevisionMeta } from './store';
+
+// Browser-side wrappers around the /api/crosswalk routes
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // Present when the server rejected records that fail the crosswalk schema
+  get validationReport(): CrosswalkValidationReport | null {
+    return this.status === 422 ? (this.details as CrosswalkValidationReport) : null;
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    cache: 'no-store',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, body?.error?.message ?? `Request failed (${res.status})`, body?.error?.details);
+  }
+  return body.data as T;
+}
+
+export function fetchRevisions(): Promise<RevisionMeta[]> {
+  return request('/api/crosswalk/revisions');
+}
+
+export function fetchRevision(version: number | 'latest'): Promise<Revision> {
+  return request(`/api/crosswalk/revisions/${version}`);
+}
+
+export function createRevision(records: JsonRecord[], author: string, message: string): Promise<RevisionMeta> {
+  return request('/api/crosswalk/revisions', {
+    method: 'POST',
+    body: JSON.stringify({ records, author, message }),
+  });
+}
+
+export function rollbackRevision(version: number, author: string, message?: string): Promise<RevisionMeta> {
+  return request(`/api/crosswalk/revisions/${version}/rollback`, {
+    method: 'POST',
+    body: JSON.stringify({ author, message }),
+  });
+}
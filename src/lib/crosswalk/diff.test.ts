@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { diffDatasets, diffRecords, toJsonPatch, type JsonPatchOp } from './diff';
+import type { JsonRecord } from './schema';
+
+// Applies the three operations toJsonPatch emits, in order, as RFC 6902 does
+function applyPatch(doc: JsonRecord[], ops: JsonPatchOp[]): JsonRecord[] {
+  const result = structuredClone(doc);
+  ops.forEach(op => {
+    const segments = op.path.slice(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const last = segments.pop()!;
+    const parent = segments.reduce<JsonRecord>((node, s) => node[s], result);
+    if (op.op === 'remove') {
+      if (Array.isArray(parent)) parent.splice(Number(last), 1);
+      else delete parent[last];
+    } else if (last === '-') {
+      parent.push(op.value);
+    } else {
+      parent[last] = op.value;
+    }
+  });
+  return result;
+}
+
+describe('diffDatasets', () => {
+  it('matches rows on their primary key, and keyless rows by position', () => {
+    const diff = diffDatasets(
+      [{ indicator: '1.1.1', title: 'a' }, { title: 'keyless' }],
+      [{ title: 'moved' }, { indicator: '1.1.1', title: 'a' }]
+    );
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added.map(r => r.key)).toEqual(['#1']);
+    expect(diff.removed.map(r => r.key)).toEqual(['#2']);
+  });
+
+  it('breaks array fields down into added and removed items', () => {
+    const [field] = diffRecords({ ladmLink: ['LA_Party', 'LA_RRR'] }, { ladmLink: ['LA_RRR', 'LA_BAUnit'] });
+    expect(field.items).toEqual({ added: ['LA_BAUnit'], removed: ['LA_Party'], reordered: false });
+    expect(diffRecords({ ladmLink: ['a', 'b'] }, { ladmLink: ['b', 'a'] })[0].items?.reordered).toBe(true);
+  });
+});
+
+describe('toJsonPatch', () => {
+  // 1.1.1 appears twice in the base and twice in the compare set, with different second rows
+  const base = [
+    { indicator: '1.1.1', title: 'first' },
+    { indicator: '1.2.1', title: 'kept' },
+    { indicator: '1.1.1', title: 'base duplicate' },
+    { indicator: '1.3.1', title: 'dropped' },
+  ];
+  const compare = [
+    { indicator: '1.1.1', title: 'first, edited' },
+    { indicator: '1.2.1', title: 'kept' },
+    { indicator: '1.1.1', title: 'compare duplicate' },
+  ];
+  const diff = diffDatasets(base, compare);
+
+  it('pairs the first occurrences of a duplicate key and treats the rest as removed and added', () => {
+    expect(diff.changed.map(c => [c.key, c.baseIndex, c.compareIndex])).toEqual([['1.1.1', 0, 0]]);
+    expect(diff.removed.map(r => r.index)).toEqual([2, 3]);
+    expect(diff.added.map(r => r.record.title)).toEqual(['compare duplicate']);
+  });
+
+  it('addresses rows by base index and removes from the end', () => {
+    expect(toJsonPatch(diff)).toEqual([
+      { op: 'replace', path: '/0/title', value: 'first, edited' },
+      { op: 'remove', path: '/3' },
+      { op: 'remove', path: '/2' },
+      { op: 'add', path: '/-', value: { indicator: '1.1.1', title: 'compare duplicate' } },
+    ]);
+  });
+
+  it('turns the base into the compare set', () => {
+    expect(applyPatch(base, toJsonPatch(diff))).toEqual(compare);
+  });
+
+  it('escapes pointer segments and reaches into nested fields', () => {
+    const before = [{ indicator: '11.3.1', joins: { spatial: ['a'] }, 'a/b~c': 1 }];
+    const after = [{ indicator: '11.3.1', joins: { spatial: ['a'], temporal: 'epoch' }, 'a/b~c': 2 }];
+    const ops = toJsonPatch(diffDatasets(before, after));
+    expect(ops).toEqual([
+      { op: 'add', path: '/0/joins/temporal', value: 'epoch' },
+      { op: 'replace', path: '/0/a~1b~0c', value: 2 },
+    ]);
+    expect(applyPatch(before, ops)).toEqual(after);
+  });
+});
@@ -0,0 +1,195 @@
+import type { JsonRecord } from './schema';
+import { recordKey } from './identity';
+
+export type FieldChange = {
+  path: string; // dotted, e.g. "title" or "joins.spatial"
+  kind: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+  // Set-style breakdown for array fields such as ladmLink or joins.spatial
+  items?: { added: unknown[]; removed: unknown[]; reordered: boolean };
+};
+
+export type RecordChange = {
+  key: string;
+  baseIndex: number;
+  compareIndex: number;
+  before: JsonRecord;
+  after: JsonRecord;
+  fields: FieldChange[];
+};
+
+export type KeyedRecord = { key: string; index: number; record: JsonRecord };
+
+export type CrosswalkDiff = {
+  added: KeyedRecord[];
+  removed: KeyedRecord[];
+  changed: RecordChange[];
+  unchanged: number;
+};
+
+// Records are matched on their primary key (see identity.ts); keyless rows by position
+export function diffKey(record: JsonRecord, index: number): string {
+  return recordKey(record)?.value ?? `#${index + 1}`;
+}
+
+const isPlainObject = (v: unknown): v is JsonRecord =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function diffArrays(path: string, before: unknown[], after: unknown[]): FieldChange | null {
+  if (same(before, after)) return null;
+  const beforeKeys = before.map(v => JSON.stringify(v));
+  const afterKeys = after.map(v => JSON.stringify(v));
+  const added = after.filter((_, i) => !beforeKeys.includes(afterKeys[i]));
+  const removed = before.filter((_, i) => !afterKeys.includes(beforeKeys[i]));
+  return {
+    path,
+    kind: 'changed',
+    before,
+    after,
+    items: { added, removed, reordered: added.length === 0 && removed.length === 0 },
+  };
+}
+
+function diffValues(path: string, before: unknown, after: unknown, out: FieldChange[]) {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    out.push({ path, kind: 'added', before, after });
+  } else if (after === undefined) {
+    out.push({ path, kind: 'removed', before, after });
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    const change = diffArrays(path, before, after);
+    if (change) out.push(change);
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    // Nested objects such as joins are compared key by key
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(k => diffValues(path ? `${path}.${k}` : k, before[k], after[k], out));
+  } else if (!same(before, after)) {
+    out.push({ path, kind: 'changed', before, after });
+  }
+}
+
+export function diffRecords(before: JsonRecord, after: JsonRecord): FieldChange[] {
+  const out: FieldChange[] = [];
+  diffValues('', before, after, out);
+  return out;
+}
+
+export function diffDatasets(base: JsonRecord[], compare: JsonRecord[]): CrosswalkDiff {
+  const baseByKey = new Map<string, KeyedRecord>();
+  base.forEach((record, index) => {
+    const key = diffKey(record, index);
+    if (!baseByKey.has(key)) baseByKey.set(key, { key, index, record });
+  });
+
+  const seen = new Set<string>();
+  const added: KeyedRecord[] = [];
+  const changed: RecordChange[] = [];
+  let unchanged = 0;
+
+  compare.forEach((record, index) => {
+    const key = diffKey(record, index);
+    const match = seen.has(key) ? undefined : baseByKey.get(key);
+    if (!match) {
+      added.push({ key, index, record });
+      return;
+    }
+    seen.add(key);
+    const fields = diffRecords(match.record, record);
+    if (fields.length === 0) {
+      unchanged++;
+    } else {
+      changed.push({ key, baseIndex: match.index, compareIndex: index, before: match.record, after: record, fields });
+    }
+  });
+
+  const removed = Array.from(baseByKey.values()).filter(r => !seen.has(r.key));
+  // Duplicate keys in the base beyond the first occurrence are reported as removed too
+  base.forEach((record, index) => {
+    const key = diffKey(record, index);
+    if (baseByKey.get(key)?.index !== index) removed.push({ key, index, record });
+  });
+  removed.sort((a, b) => a.index - b.index);
+
+  return { added, removed, changed, unchanged };
+}
+
+// RFC 6902 operations that turn the base array into the compare array
+export type JsonPatchOp =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+const escapePointer = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+export function toJsonPatch(diff: CrosswalkDiff): JsonPatchOp[] {
+  const ops: JsonPatchOp[] = [];
+
+  // Field edits first, while base indexes are still valid
+  [...diff.changed]
+    .sort((a, b) => a.baseIndex - b.baseIndex)
+    .forEach(change => {
+      change.fields.forEach(field => {
+        const path = `/${change.baseIndex}/${field.path.split('.').map(escapePointer).join('/')}`;
+        if (field.kind === 'removed') ops.push({ op: 'remove', path });
+        else if (field.kind === 'added') ops.push({ op: 'add', path, value: field.after });
+        else ops.push({ op: 'replace', path, value: field.after });
+      });
+    });
+
+  // Remove from the end so earlier indexes do not shift
+  [...diff.removed]
+    .sort((a, b) => b.index - a.index)
+    .forEach(r => ops.push({ op: 'remove', path: `/${r.index}` }));
+
+  diff.added.forEach(r => ops.push({ op: 'add', path: '/-', value: r.record }));
+
+  return ops;
+}
+
+const fmtValue = (v: unknown) => (v === undefined ? '—' : `\`${JSON.stringify(v)}\``);
+
+export function toMarkdownChangelog(diff: CrosswalkDiff, baseLabel: string, compareLabel: string): string {
+  const lines: string[] = [
+    `# Crosswalk changes: ${baseLabel} → ${compareLabel}`,
+    '',
+    `- Added: ${diff.added.length}`,
+    `- Removed: ${diff.removed.length}`,
+    `- Changed: ${diff.changed.length}`,
+    `- Unchanged: ${diff.unchanged}`,
+  ];
+
+  if (diff.added.length > 0) {
+    lines.push('', '## Added');
+    diff.added.forEach(r => lines.push(`- **${r.key}** ${r.record.title ?? ''}`.trimEnd()));
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', '## Removed');
+    diff.removed.forEach(r => lines.push(`- **${r.key}** ${r.record.title ?? ''}`.trimEnd()));
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', '## Changed');
+    diff.changed.forEach(change => {
+      lines.push('', `### ${change.key}`);
+      change.fields.forEach(field => {
+        if (field.items && !field.items.reordered) {
+          const parts = [
+            ...field.items.added.map(v => `+${JSON.stringify(v)}`),
+            ...field.items.removed.map(v => `−${JSON.stringify(v)}`),
+          ];
+          lines.push(`- \`${field.path}\`: ${parts.join(', ')}`);
+        } else if (field.items?.reordered) {
+          lines.push(`- \`${field.path}\`: reordered ${fmtValue(field.before)} → ${fmtValue(field.after)}`);
+        } else {
+          lines.push(`- \`${field.path}\` (${field.kind}): ${fmtValue(field.before)} → ${fmtValue(field.after)}`);
+        }
+      });
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
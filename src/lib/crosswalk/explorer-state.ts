@@ -0,0 +1,153 @@
+import type { FacetSelections } from './facets';
+import type { ArraySortMode, SortSpec } from './sort';
+
+/*
+ * Explorer state in the query string, so a view can be reloaded or shared:
+ *
+ *   q=<search>                  global search
+ *   f.<column>=<text>           column filter, "contains"
+ *   fx.<column>=<text>          column filter, exact match
+ *   facet.<field>=<value>       facet value, repeat the param for several values
+ *   all=<field>,<field>         facets combined with AND instead of OR
+ *   sort=indicator,-tier        sort keys in priority order, "-" for descending
+ *   cols=indicator,title,tier   visible columns (omitted when they are the dataset defaults)
+ *   sel=<row id>                selected record
+ *
+ * e.g. /explorer?fx.tier=B&facet.ladmLink=LA_RRR&sort=indicator
+ */
+
+export type ExplorerUrlState = {
+  q: string;
+  columnFilters: Record<string, string>;
+  columnExactMatch: Record<string, boolean>;
+  facets: FacetSelections;
+  sort: SortSpec[];
+  columns: string[] | null;
+  selected: string | null;
+};
+
+export function parseExplorerParams(params: URLSearchParams): ExplorerUrlState {
+  const columnFilters: Record<string, string> = {};
+  const columnExactMatch: Record<string, boolean> = {};
+  const facets: FacetSelections = {};
+  const andFields = new Set((params.get('all') ?? '').split(',').filter(Boolean));
+
+  params.forEach((value, name) => {
+    if (name.startsWith('fx.')) {
+      columnFilters[name.slice(3)] = value;
+      columnExactMatch[name.slice(3)] = true;
+    } else if (name.startsWith('f.')) {
+      columnFilters[name.slice(2)] = value;
+    } else if (name.startsWith('facet.')) {
+      const field = name.slice('facet.'.length);
+      const selection = facets[field] ?? { values: [], mode: andFields.has(field) ? 'all' : 'any' };
+      if (!selection.values.includes(value)) selection.values.push(value);
+      facets[field] = selection;
+    }
+  });
+
+  const sort: SortSpec[] = (params.get('sort') ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map(part => (part.startsWith('-') ? { key: part.slice(1), dir: 'desc' } : { key: part, dir: 'asc' }));
+
+  const cols = params.get('cols');
+
+  return {
+    q: params.get('q') ?? '',
+    columnFilters,
+    columnExactMatch,
+    facets,
+    sort,
+    columns: cols ? cols.split(',').filter(Boolean) : null,
+    selected: params.get('sel'),
+  };
+}
+
+export function buildExplorerParams(state: ExplorerUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.q) params.set('q', state.q);
+
+  Object.entries(state.columnFilters).forEach(([key, value]) => {
+    if (!value) return;
+    params.set(state.columnExactMatch[key] ? `fx.${key}` : `f.${key}`, value);
+  });
+
+  const andFields: string[] = [];
+  Object.entries(state.facets).forEach(([field, selection]) => {
+    if (selection.values.length === 0) return;
+    selection.values.forEach(v => params.append(`facet.${field}`, v));
+    if (selection.mode === 'all') andFields.push(field);
+  });
+  if (andFields.length > 0) params.set('all', andFields.join(','));
+
+  if (state.sort.length > 0) {
+    params.set('sort', state.sort.map(s => (s.dir === 'desc' ? `-${s.key}` : s.key)).join(','));
+  }
+  if (state.columns) params.set('cols', state.columns.join(','));
+  if (state.selected) params.set('sel', state.selected);
+  return params;
+}
+
+const EMPTY_STATE: ExplorerUrlState = {
+  q: '',
+  columnFilters: {},
+  columnExactMatch: {},
+  facets: {},
+  sort: [],
+  columns: null,
+  selected: null,
+};
+
+// Link into the explorer, e.g. explorerHref({ facets: { tier: { values: ['A'], mode: 'any' } } })
+export function explorerHref(state: Partial<ExplorerUrlState>): string {
+  const qs = buildExplorerParams({ ...EMPTY_STATE, ...state }).toString();
+  return qs ? `/explorer?${qs}` : '/explorer';
+}
+
+// Columns shown when a dataset is first opened
+export function defaultVisibleColumns(keys: string[]): Record<string, boolean> {
+  const defaultVisible: Record<string, boolean> = {};
+  const priorityColumns = ['indicator', 'title', 'tier', 'ladmLink', 'externalData'];
+
+  keys.forEach(key => {
+    // Show priority columns if they exist, otherwise show first few columns
+    defaultVisible[key] = priorityColumns.includes(key);
+  });
+
+  // If priority columns don't exist (generic JSON), show first 6 columns
+  const visibleCount = Object.values(defaultVisible).filter(Boolean).length;
+  if (visibleCount === 0) {
+    keys.forEach((key, index) => {
+      defaultVisible[key] = index < 6;
+    });
+  }
+
+  return defaultVisible;
+}
+
+// Layout preferences kept in localStorage per dataset (the crosswalk and its revisions share one entry)
+export type ExplorerLayout = {
+  visibleColumns: Record<string, boolean>;
+  arraySortMode: ArraySortMode;
+  showFacets: boolean;
+};
+
+const layoutStorageKey = (dataset: string) => `explorer.layout.${dataset}`;
+
+export function loadLayout(dataset: string): Partial<ExplorerLayout> | null {
+  try {
+    const raw = localStorage.getItem(layoutStorageKey(dataset));
+    return raw ? (JSON.parse(raw) as Partial<ExplorerLayout>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLayout(dataset: string, layout: ExplorerLayout) {
+  try {
+    localStorage.setItem(layoutStorageKey(dataset), JSON.stringify(layout));
+  } catch {
+    // Storage full or disabled; preferences are a convenience only
+  }
+}
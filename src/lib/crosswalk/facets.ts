@@ -0,0 +1,101 @@
+import type { JsonRecord } from './schema';
+import { getField } from './filter';
+import { naturalCompare } from './sort';
+
+// Categorical and list fields offered in the facet sidebar, in display order
+export const FACET_FIELDS = [
+  'tier',
+  'goal',
+  'ladmLink',
+  'tenureSemantics',
+  'geometryOfInterest',
+  'externalData',
+  'joins.spatial',
+] as const;
+
+// "any" = OR between the selected values, "all" = the row must carry every selected value
+export type FacetMode = 'any' | 'all';
+export type FacetSelection = { values: string[]; mode: FacetMode };
+export type FacetSelections = Record<string, FacetSelection>;
+
+export type FacetValueCount = { value: string; count: number };
+export type FacetCounts = { field: string; isList: boolean; values: FacetValueCount[] };
+
+export function facetValues(row: JsonRecord, field: string): string[] {
+  const value = getField(row, field);
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v)));
+  return [typeof value === 'object' ? JSON.stringify(value) : String(value)];
+}
+
+function matchesSelection(row: JsonRecord, field: string, selection: FacetSelection): boolean {
+  if (selection.values.length === 0) return true;
+  const values = facetValues(row, field);
+  return selection.mode === 'all'
+    ? selection.values.every(v => values.includes(v))
+    : selection.values.some(v => values.includes(v));
+}
+
+// Facets combine with AND across fields; `except` skips one field (used for its own counts)
+export function matchesFacets(row: JsonRecord, selections: FacetSelections, except?: string): boolean {
+  return Object.entries(selections).every(([field, selection]) =>
+    field === except || matchesSelection(row, field, selection)
+  );
+}
+
+// Counts for every facet value among `indexes` (rows already passing search and column filters).
+// In "any" mode a facet's own selection is ignored so the counts show what adding a value would give;
+// in "all" mode it is applied, so the counts narrow as values are added.
+export function computeFacetCounts(
+  rows: JsonRecord[],
+  indexes: number[],
+  selections: FacetSelections,
+  fields: readonly string[] = FACET_FIELDS
+): FacetCounts[] {
+  return fields
+    .map(field => {
+      const selection = selections[field];
+      const except = selection?.mode === 'all' ? undefined : field;
+      const counts = new Map<string, number>();
+      let isList = false;
+
+      indexes.forEach(i => {
+        const row = rows[i];
+        if (Array.isArray(getField(row, field))) isList = true;
+        if (!matchesFacets(row, selections, except)) return;
+        new Set(facetValues(row, field)).forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+      });
+
+      // Keep selected values visible even when nothing matches them any more
+      selection?.values.forEach(v => {
+        if (!counts.has(v)) counts.set(v, 0);
+      });
+
+      // Codes (goal, tier) read best in natural order; vocabularies by frequency
+      const byCode = field === 'goal' || field === 'tier';
+      const values = Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) =>
+        byCode ? naturalCompare(a.value, b.value) : b.count - a.count || naturalCompare(a.value, b.value)
+      );
+      return { field, isList, values };
+    })
+    .filter(f => f.values.length > 0);
+}
+
+export function toggleFacetValue(selections: FacetSelections, field: string, value: string): FacetSelections {
+  const current = selections[field] ?? { values: [], mode: 'any' as FacetMode };
+  const values = current.values.includes(value)
+    ? current.values.filter(v => v !== value)
+    : [...current.values, value];
+  const next = { ...selections };
+  if (values.length === 0 && current.mode === 'any') delete next[field];
+  else next[field] = { ...current, values };
+  return next;
+}
+
+export function setFacetMode(selections: FacetSelections, field: string, mode: FacetMode): FacetSelections {
+  const current = selections[field] ?? { values: [], mode };
+  return { ...selections, [field]: { ...current, mode } };
+}
+
+export const hasFacetSelection = (selections: FacetSelections) =>
+  Object.values(selections).some(s => s.values.length > 0);
@@ -0,0 +1,120 @@
+import type { JsonRecord } from './schema';
+
+export type RecordFilter = {
+  q?: string;
+  columnFilters?: Record<string, string>;
+  columnExactMatch?: Record<string, boolean>;
+};
+
+// Structured filters exposed by the API, mapped to the record field they match (exact match)
+export const FIELD_FILTERS = {
+  goal: 'goal',
+  target: 'target',
+  tier: 'tier',
+  ladmLink: 'ladmLink',
+  geometryOfInterest: 'geometryOfInterest',
+  externalData: 'externalData',
+  spatialJoin: 'joins.spatial',
+} as const;
+
+export type FieldFilterName = keyof typeof FIELD_FILTERS;
+
+// Reads a possibly dotted path such as "joins.spatial"
+export function getField(row: JsonRecord, key: string): unknown {
+  if (key in row) return row[key];
+  return key.split('.').reduce<unknown>((acc, part) => {
+    if (acc === null || acc === undefined || typeof acc !== 'object') return undefined;
+    return (acc as JsonRecord)[part];
+  }, row);
+}
+
+export function matchesSearch(row: JsonRecord, keys: string[], q: string): boolean {
+  if (!q) return true;
+  const needle = q.toLowerCase();
+  return keys.some(key => {
+    const value = row[key];
+    if (value === null || value === undefined) return false;
+
+    if (Array.isArray(value)) {
+      return value.join(' ').toLowerCase().includes(needle);
+    } else if (typeof value === 'object') {
+      return JSON.stringify(value).toLowerCase().includes(needle);
+    } else {
+      return String(value).toLowerCase().includes(needle);
+    }
+  });
+}
+
+export function matchesColumnFilter(row: JsonRecord, key: string, filterValue: string, exact: boolean): boolean {
+  if (!filterValue) return true;
+
+  const value = getField(row, key);
+  if (value === null || value === undefined) return false;
+
+  const filterValueLower = filterValue.toLowerCase();
+
+  if (Array.isArray(value)) {
+    const joinedValue = value.join(' ').toLowerCase();
+    return exact
+      ? value.some(item => String(item).toLowerCase() === filterValueLower)
+      : joinedValue.includes(filterValueLower);
+  } else if (typeof value === 'object') {
+    const jsonValue = JSON.stringify(value).toLowerCase();
+    return exact
+      ? jsonValue === filterValueLower
+      : jsonValue.includes(filterValueLower);
+  } else {
+    const stringValue = String(value).toLowerCase();
+    return exact
+      ? stringValue === filterValueLower
+      : stringValue.includes(filterValueLower);
+  }
+}
+
+// Positions of the matching rows, so callers can keep row ids parallel to the data
+export function filterIndexes(rows: JsonRecord[], keys: string[], filter: RecordFilter): number[] {
+  const { q = '', columnFilters = {}, columnExactMatch = {} } = filter;
+  const active = Object.entries(columnFilters).filter(([, value]) => value);
+  const out: number[] = [];
+  rows.forEach((r, i) => {
+    if (
+      matchesSearch(r, keys, q) &&
+      active.every(([key, value]) => matchesColumnFilter(r, key, value, columnExactMatch[key] || false))
+    ) {
+      out.push(i);
+    }
+  });
+  return out;
+}
+
+// Shared by the explorer table and the REST API so both return the same records
+export function filterRecords<T extends JsonRecord>(rows: T[], keys: string[], filter: RecordFilter): T[] {
+  return filterIndexes(rows, keys, filter).map(i => rows[i]);
+}
+
+// Union of the top-level keys across all rows, in first-seen order
+export function collectKeys(rows: JsonRecord[]): string[] {
+  const allKeys = new Set<string>();
+  rows.forEach(item => {
+    if (typeof item === 'object' && item !== null) {
+      Object.keys(item).forEach(key => allKeys.add(key));
+    }
+  });
+  return Array.from(allKeys);
+}
+
+// Turns structured field filters into exact-match column filters
+export function fieldFiltersToRecordFilter(
+  fields: Partial<Record<FieldFilterName, string>>,
+  q?: string
+): RecordFilter {
+  const columnFilters: Record<string, string> = {};
+  const columnExactMatch: Record<string, boolean> = {};
+  (Object.keys(fields) as FieldFilterName[]).forEach(name => {
+    const value = fields[name];
+    if (!value) return;
+    columnFilters[FIELD_FILTERS[name]] = value;
+    columnExactMatch[FIELD_FILTERS[name]] = true;
+  });
+  return { q, columnFilters, columnExactMatch };
+}
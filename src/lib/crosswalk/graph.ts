@@ -0,0 +1,196 @@
+import type { JsonRecord } from './schema';
+import { getField } from './filter';
+import { buildRecordIndex } from './identity';
+
+export type NodeKind = 'goal' | 'target' | 'indicator' | 'ladm' | 'geometry' | 'source';
+
+// Goal → target → indicator form the hierarchy; the other kinds are attributes of an indicator
+export const HIERARCHY_KINDS: NodeKind[] = ['goal', 'target', 'indicator'];
+export const ATTRIBUTE_KINDS: NodeKind[] = ['ladm', 'geometry', 'source'];
+
+const ATTRIBUTE_FIELDS: Record<string, string[]> = {
+  ladm: ['ladmLink', 'tenureSemantics'],
+  geometry: ['geometryOfInterest'],
+  source: ['externalData'],
+};
+
+export type GraphNode = {
+  id: string;
+  kind: NodeKind;
+  label: string;
+  field?: string; // attribute nodes: the record field the value comes from
+  rows: number[]; // positions of the records behind the node
+};
+
+export type GraphEdge = { source: string; target: string; weight: number };
+
+export type Graph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+export type GraphOptions = {
+  kinds: NodeKind[];
+  // Attribute nodes used by fewer records are dropped (most externalData values occur once)
+  minRecords?: number;
+  // Restrict to these record positions; node `rows` stay positions in the full `rows` array
+  indexes?: number[];
+};
+
+// A kind read from several fields keeps one node per field (ladmLink and tenureSemantics share
+// values such as LA_RRR), so a node's records are exactly those carrying it in that field
+const nodeId = (kind: NodeKind, value: string, field?: string) =>
+  field && ATTRIBUTE_FIELDS[kind].length > 1 ? `${kind}:${field}:${value}` : `${kind}:${value}`;
+
+function listValues(row: JsonRecord, field: string): string[] {
+  const value = getField(row, field);
+  if (value === null || value === undefined || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).map(v => String(v)).filter(Boolean);
+}
+
+// Works on any loaded dataset: missing fields simply produce no nodes. Indicator nodes fall back
+// to the record id, so every record has at least one hierarchy value.
+export function buildGraph(rows: JsonRecord[], { kinds, minRecords = 1, indexes }: GraphOptions): Graph {
+  const { ids } = buildRecordIndex(rows);
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const attributeLinks: { anchor: string; attribute: string }[] = [];
+
+  const addNode = (kind: NodeKind, value: string, row: number, field?: string) => {
+    const id = nodeId(kind, value, field);
+    const node = nodes.get(id) ?? { id, kind, label: value, ...(field ? { field } : {}), rows: [] };
+    if (node.rows[node.rows.length - 1] !== row) node.rows.push(row);
+    nodes.set(id, node);
+    return id;
+  };
+
+  const addEdge = (source: string, target: string) => {
+    const key = `${source}|${target}`;
+    const edge = edges.get(key) ?? { source, target, weight: 0 };
+    edge.weight++;
+    edges.set(key, edge);
+  };
+
+  (indexes ?? rows.map((_, i) => i)).forEach(i => {
+    const row = rows[i];
+    const hierarchy: Record<string, string | undefined> = {
+      goal: listValues(row, 'goal')[0],
+      target: listValues(row, 'target')[0],
+      indicator: listValues(row, 'indicator')[0] ?? ids[i],
+    };
+
+    // Chain the visible hierarchy levels, skipping hidden or missing ones
+    const chain = HIERARCHY_KINDS.filter(k => kinds.includes(k) && hierarchy[k]).map(k =>
+      addNode(k, hierarchy[k]!, i)
+    );
+    chain.slice(1).forEach((id, j) => addEdge(chain[j], id));
+
+    // Attributes attach to the finest visible level of the chain
+    const anchor = chain[chain.length - 1];
+    ATTRIBUTE_KINDS.filter(k => kinds.includes(k)).forEach(kind => {
+      ATTRIBUTE_FIELDS[kind].forEach(field => {
+        new Set(listValues(row, field)).forEach(value => {
+          const id = addNode(kind, value, i, field);
+          if (anchor) attributeLinks.push({ anchor, attribute: id });
+        });
+      });
+    });
+  });
+
+  const dropped = new Set(
+    Array.from(nodes.values())
+      .filter(n => ATTRIBUTE_KINDS.includes(n.kind) && n.rows.length < minRecords)
+      .map(n => n.id)
+  );
+  dropped.forEach(id => nodes.delete(id));
+  attributeLinks.filter(l => !dropped.has(l.attribute)).forEach(l => addEdge(l.anchor, l.attribute));
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+export type Point = { x: number; y: number };
+
+// Repulsion costs one evaluation per node pair and step, and the layout runs on the main thread.
+// Big graphs get fewer steps; when even MIN_LAYOUT_STEPS would exceed the budget, the starting
+// rings are returned as they are.
+const LAYOUT_PAIR_BUDGET = 10_000_000;
+const MAX_LAYOUT_STEPS = 300;
+const MIN_LAYOUT_STEPS = 20;
+
+// Fruchterman–Reingold layout, deterministic: nodes start on rings by kind (hierarchy inside,
+// attributes outside) so the same data always gives the same picture.
+export function layoutGraph(graph: Graph, width: number, height: number, iterations?: number): Map<string, Point> {
+  const n = graph.nodes.length;
+  const positions = new Map<string, Point>();
+  if (n === 0) return positions;
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const kinds: NodeKind[] = [...HIERARCHY_KINDS, ...ATTRIBUTE_KINDS];
+  const byKind = kinds.map(k => graph.nodes.filter(node => node.kind === k)).filter(list => list.length > 0);
+  byKind.forEach((list, ring) => {
+    const radius = (Math.min(width, height) / 2) * ((ring + 1) / (byKind.length + 1));
+    list.forEach((node, i) => {
+      const angle = (2 * Math.PI * i) / list.length + ring;
+      positions.set(node.id, { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+    });
+  });
+
+  const pairs = (n * (n - 1)) / 2;
+  const steps = iterations ?? Math.min(MAX_LAYOUT_STEPS, Math.floor(LAYOUT_PAIR_BUDGET / Math.max(pairs, 1)));
+  if (steps < MIN_LAYOUT_STEPS && iterations === undefined) return positions;
+
+  const k = Math.sqrt((width * height) / n) * 0.8;
+  // Fewer steps cool faster, so every run ends at the same temperature
+  const cooling = Math.pow(0.98, MAX_LAYOUT_STEPS / steps);
+  let temperature = width / 10;
+  const ids = graph.nodes.map(node => node.id);
+  const pts = ids.map(id => positions.get(id)!);
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  for (let step = 0; step < steps; step++) {
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let x = pts[i].x - pts[j].x;
+        let y = pts[i].y - pts[j].y;
+        let d2 = x * x + y * y;
+        if (d2 < 0.01) {
+          x = 0.1 * (i - j);
+          y = 0.1;
+          d2 = x * x + y * y;
+        }
+        const f = (k * k) / d2;
+        dx[i] += x * f;
+        dy[i] += y * f;
+        dx[j] -= x * f;
+        dy[j] -= y * f;
+      }
+    }
+
+    graph.edges.forEach(edge => {
+      const i = index.get(edge.source)!;
+      const j = index.get(edge.target)!;
+      const x = pts[i].x - pts[j].x;
+      const y = pts[i].y - pts[j].y;
+      const d = Math.sqrt(x * x + y * y) || 0.01;
+      const f = (d / k) * Math.log2(1 + edge.weight);
+      dx[i] -= x * f;
+      dy[i] -= y * f;
+      dx[j] += x * f;
+      dy[j] += y * f;
+    });
+
+    for (let i = 0; i < n; i++) {
+      // Weak pull to the centre keeps disconnected parts on screen
+      dx[i] += (cx - pts[i].x) * 0.01 * k;
+      dy[i] += (cy - pts[i].y) * 0.01 * k;
+      const d = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]) || 1;
+      const move = Math.min(d, temperature);
+      pts[i].x = Math.min(width - 10, Math.max(10, pts[i].x + (dx[i] / d) * move));
+      pts[i].y = Math.min(height - 10, Math.max(10, pts[i].y + (dy[i] / d) * move));
+    }
+    temperature *= cooling;
+  }
+
+  return positions;
+}
@@ -0,0 +1,51 @@
+import type { JsonRecord } from './schema';
+
+// One undoable step: a whole-row replacement, so undo/redo never depends on what kind of edit it was
+export type EditEntry = {
+  index: number;
+  before: JsonRecord;
+  after: JsonRecord;
+  label: string;
+};
+
+export type EditHistory = {
+  past: EditEntry[];
+  future: EditEntry[];
+};
+
+export const emptyHistory: EditHistory = { past: [], future: [] };
+
+export const MAX_HISTORY = 200;
+
+export function pushEntry(history: EditHistory, entry: EditEntry): EditHistory {
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+}
+
+export function undoEntry(history: EditHistory): [EditHistory, EditEntry | null] {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return [history, null];
+  return [{ past: history.past.slice(0, -1), future: [entry, ...history.future] }, entry];
+}
+
+export function redoEntry(history: EditHistory): [EditHistory, EditEntry | null] {
+  const entry = history.future[0];
+  if (!entry) return [history, null];
+  return [{ past: [...history.past, entry], future: history.future.slice(1) }, entry];
+}
+
+// Copies the value at a dotted path from the original record, or drops the key if the original had none
+export function revertField(current: JsonRecord, original: JsonRecord, path: string): JsonRecord {
+  const [head, ...rest] = path.split('.');
+  const next = { ...current };
+
+  if (rest.length === 0) {
+    if (head in original) next[head] = original[head];
+    else delete next[head];
+    return next;
+  }
+
+  const currentChild = typeof current[head] === 'object' && current[head] !== null ? current[head] : {};
+  const originalChild = typeof original[head] === 'object' && original[head] !== null ? original[head] : {};
+  next[head] = revertField(currentChild, originalChild, rest.join('.'));
+  return next;
+}
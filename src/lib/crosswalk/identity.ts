@@ -0,0 +1,63 @@
+import type { JsonRecord } from './schema';
+
+// Primary key candidates, in order. Repeated UN indicators share a unsd_code (e.g. C200303 is
+// 1.5.1, 11.5.1 and 13.1.1), so the indicator code comes first and unsd_code is the fallback.
+export const KEY_FIELDS = ['indicator', 'unsd_code', 'id'] as const;
+
+export type RecordKey = { field: (typeof KEY_FIELDS)[number]; value: string };
+
+export function recordKey(record: JsonRecord): RecordKey | null {
+  if (!record || typeof record !== 'object') return null;
+  for (const field of KEY_FIELDS) {
+    const value = record[field];
+    if (value !== undefined && value !== null && value !== '') return { field, value: String(value) };
+  }
+  return null;
+}
+
+export type DuplicateKey = {
+  key: RecordKey;
+  rows: number[]; // every row carrying the key, first occurrence included
+};
+
+export type RecordIndex = {
+  ids: string[]; // one stable id per row, parallel to the input array
+  byId: Map<string, number>;
+  byKey: Map<string, number>; // first row for each primary key
+  duplicates: DuplicateKey[];
+  missing: number[]; // rows without any key field
+};
+
+// Assigns row ids once per load. Later occurrences of a duplicate key get a "~2", "~3" suffix
+// so every row stays addressable, and rows without a key fall back to their load position.
+export function buildRecordIndex(rows: JsonRecord[]): RecordIndex {
+  const ids: string[] = [];
+  const byId = new Map<string, number>();
+  const byKey = new Map<string, number>();
+  const occurrences = new Map<string, { key: RecordKey; rows: number[] }>();
+  const missing: number[] = [];
+
+  rows.forEach((row, index) => {
+    const key = recordKey(row);
+    let id: string;
+    if (!key) {
+      missing.push(index);
+      id = `row-${index + 1}`;
+    } else {
+      const seen = occurrences.get(key.value);
+      if (seen) {
+        seen.rows.push(index);
+        id = `${key.value}~${seen.rows.length}`;
+      } else {
+        occurrences.set(key.value, { key, rows: [index] });
+        byKey.set(key.value, index);
+        id = key.value;
+      }
+    }
+    ids.push(id);
+    byId.set(id, index);
+  });
+
+  const duplicates = Array.from(occurrences.values()).filter(o => o.rows.length > 1);
+  return { ids, byId, byKey, duplicates, missing };
+}
@@ -0,0 +1,59 @@
+import type { JsonRecord } from './schema';
+import { naturalCompare } from './sort';
+
+export type JoinKind = 'spatial' | 'id' | 'time';
+export const JOIN_KINDS: JoinKind[] = ['spatial', 'id', 'time'];
+
+export const listField = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v)) : [];
+
+export const joinValues = (record: JsonRecord, kind: JoinKind): string[] => listField(record.joins?.[kind]);
+
+export type IndicatorMatch = {
+  record: JsonRecord;
+  matchedBy: 'indicator' | 'unsd_code';
+  repeatedAs: string[];
+};
+
+// Look up by indicator code (11.3.1) or UNSD series code (C110301, case-insensitive).
+// Repeated UN indicators share one unsd_code; the first is returned and the others listed.
+export function findIndicator(rows: JsonRecord[], code: string): IndicatorMatch | null {
+  const byIndicator = rows.find(r => String(r.indicator) === code);
+  if (byIndicator) return { record: byIndicator, matchedBy: 'indicator', repeatedAs: [] };
+
+  const byCode = rows.filter(r => String(r.unsd_code).toLowerCase() === code.toLowerCase());
+  if (byCode.length === 0) return null;
+  return { record: byCode[0], matchedBy: 'unsd_code', repeatedAs: byCode.slice(1).map(r => String(r.indicator)) };
+}
+
+export type SharedJoin = { kind: JoinKind; value: string };
+export type RelatedByJoin = { record: JsonRecord; shared: SharedJoin[] };
+
+const byIndicator = (a: JsonRecord, b: JsonRecord) => naturalCompare(String(a.indicator), String(b.indicator));
+
+export function sameTargetIndicators(rows: JsonRecord[], record: JsonRecord): JsonRecord[] {
+  return rows
+    .filter(r => r !== record && r.target === record.target && r.indicator !== record.indicator)
+    .sort(byIndicator);
+}
+
+// Indicators sharing a spatial operation or an id key. Time joins are not matched on their own
+// because almost every record is keyed by `year`; they are listed when the other joins overlap.
+export function sharedJoinIndicators(rows: JsonRecord[], record: JsonRecord): RelatedByJoin[] {
+  const own = Object.fromEntries(JOIN_KINDS.map(kind => [kind, new Set(joinValues(record, kind))])) as Record<
+    JoinKind,
+    Set<string>
+  >;
+
+  return rows
+    .filter(r => r !== record && r.indicator !== record.indicator)
+    .map(r => ({
+      record: r,
+      shared: JOIN_KINDS.flatMap(kind => joinValues(r, kind).filter(v => own[kind].has(v)).map(value => ({ kind, value }))),
+    }))
+    .filter(({ shared }) => shared.some(s => s.kind !== 'time'))
+    .sort((a, b) => {
+      const spatial = (x: RelatedByJoin) => x.shared.filter(s => s.kind === 'spatial').length;
+      return spatial(b) - spatial(a) || b.shared.length - a.shared.length || byIndicator(a.record, b.record);
+    });
+}
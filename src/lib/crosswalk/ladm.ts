@@ -0,0 +1,33 @@
+import { LADM_CLASSES, type LadmClass } from './schema';
+
+export type LadmPackage = 'party' | 'administrative' | 'spatial' | 'source';
+
+export const LADM_CLASS_INFO: Record<LadmClass, { pkg: LadmPackage; description: string }> = {
+  LA_Party: { pkg: 'party', description: 'Person or organisation that plays a role in a rights transaction' },
+  LA_RRR: { pkg: 'administrative', description: 'Right, restriction or responsibility held by a party on a basic administrative unit' },
+  LA_BAUnit: { pkg: 'administrative', description: 'Basic administrative unit: spatial units with the same homogeneous rights' },
+  LA_SpatialUnit: { pkg: 'spatial', description: 'Parcel, building or network unit where rights apply' },
+  LA_SpatialUnitGroup: { pkg: 'spatial', description: 'Group of spatial units, e.g. an administrative or planning zone' },
+  LA_Source: { pkg: 'source', description: 'Administrative or spatial source document supporting a record' },
+};
+
+// ISO 19152 associations between the core classes, with the multiplicity at each end
+export type LadmAssociation = {
+  name: string;
+  from: LadmClass;
+  to: LadmClass;
+  fromMultiplicity: string;
+  toMultiplicity: string;
+};
+
+export const LADM_ASSOCIATIONS: LadmAssociation[] = [
+  { name: 'rrrParty', from: 'LA_Party', to: 'LA_RRR', fromMultiplicity: '0..1', toMultiplicity: '0..*' },
+  { name: 'unitRrr', from: 'LA_RRR', to: 'LA_BAUnit', fromMultiplicity: '1..*', toMultiplicity: '1' },
+  { name: 'suBaunit', from: 'LA_BAUnit', to: 'LA_SpatialUnit', fromMultiplicity: '0..*', toMultiplicity: '0..*' },
+  { name: 'suSuGroup', from: 'LA_SpatialUnit', to: 'LA_SpatialUnitGroup', fromMultiplicity: '1..*', toMultiplicity: '0..*' },
+  { name: 'rrrSource', from: 'LA_Source', to: 'LA_RRR', fromMultiplicity: '1..*', toMultiplicity: '0..*' },
+  { name: 'suSource', from: 'LA_Source', to: 'LA_SpatialUnit', fromMultiplicity: '0..*', toMultiplicity: '0..*' },
+];
+
+export const isLadmClass = (value: string): value is LadmClass =>
+  (LADM_CLASSES as readonly string[]).includes(value);
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { buildRecordIndex } from './identity';
+
+// LADM (ISO 19152) core classes a crosswalk record may link to
+export const LADM_CLASSES = [
+  'LA_Party',
+  'LA_RRR',
+  'LA_BAUnit',
+  'LA_SpatialUnit',
+  'LA_SpatialUnitGroup',
+  'LA_Source',
+] as const;
+
+export const TIERS = ['A', 'B', 'C'] as const;
+
+// Generic shape of a loaded row; imported files may not follow the crosswalk schema
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type JsonRecord = Record<string, any>;
+
+export type LadmClass = (typeof LADM_CLASSES)[number];
+export type Tier = (typeof TIERS)[number];
+
+const stringList = z.array(z.string().min(1, 'Empty value in list'));
+
+export const joinsSchema = z.object({
+  spatial: stringList,
+  id: stringList,
+  time: stringList,
+});
+
+export const crosswalkRecordSchema = z
+  .looseObject({
+    goal: z.string().regex(/^\d{1,2}$/, 'Goal must be a number between 1 and 17'),
+    target: z.string().regex(/^\d{1,2}\.[0-9a-z]+$/, 'Target must look like "11.3" or "5.a"'),
+    indicator: z.string().regex(/^\d{1,2}\.[0-9a-z]+\.\d+$/, 'Indicator must look like "11.3.1" or "5.a.1"'),
+    unsd_code: z.string().regex(/^C\d{2}[0-9a-z]{2}\d{2}$/, 'UNSD code must look like "C110301"'),
+    title: z.string().min(1, 'Title is required'),
+    tier: z.enum(TIERS, { error: 'Tier must be A, B or C' }),
+    geometryOfInterest: stringList,
+    ladmLink: z.array(z.enum(LADM_CLASSES, { error: `Must be one of ${LADM_CLASSES.join(', ')}` })),
+    tenureSemantics: stringList,
+    externalData: stringList,
+    joins: joinsSchema,
+    edgeCase: z.string(),
+    rationale: z.string(),
+    references: stringList,
+  })
+  .superRefine((r, ctx) => {
+    if (!r.target.startsWith(`${r.goal}.`)) {
+      ctx.addIssue({ code: 'custom', path: ['target'], message: `Target ${r.target} does not belong to goal ${r.goal}` });
+    }
+    if (!r.indicator.startsWith(`${r.target}.`)) {
+      ctx.addIssue({ code: 'custom', path: ['indicator'], message: `Indicator ${r.indicator} does not belong to target ${r.target}` });
+    }
+  });
+
+export type Joins = z.infer<typeof joinsSchema>;
+export type CrosswalkRecord = z.infer<typeof crosswalkRecordSchema>;
+
+export type CrosswalkIssue = {
+  row: number; // 0-based index in the loaded array
+  label: string; // indicator / unsd_code of the row, if present
+  field: string; // dotted path, e.g. "joins.spatial" or "ladmLink.1"
+  message: string;
+};
+
+export type CrosswalkValidationReport = {
+  source: string;
+  total: number;
+  valid: number;
+  issues: CrosswalkIssue[];
+  parseError?: string;
+};
+
+function rowLabel(row: unknown, index: number): string {
+  if (row && typeof row === 'object') {
+    const r = row as Record<string, unknown>;
+    if (r.indicator) return String(r.indicator);
+    if (r.unsd_code) return String(r.unsd_code);
+  }
+  return `#${index + 1}`;
+}
+
+// Runs every record through the schema and collects per-row, per-field issues
+export function validateCrosswalk(data: unknown[], source: string): CrosswalkValidationReport {
+  const issues: CrosswalkIssue[] = [];
+
+  data.forEach((row, index) => {
+    const result = crosswalkRecordSchema.safeParse(row);
+    if (result.success) return;
+    const label = rowLabel(row, index);
+    result.error.issues.forEach(issue => {
+      issues.push({
+        row: index,
+        label,
+        field: issue.path.length > 0 ? issue.path.join('.') : '(record)',
+        message: issue.message,
+      });
+    });
+  });
+
+  // Primary keys must be unique so editing, diffing and revisions address the right row
+  buildRecordIndex(data as JsonRecord[]).duplicates.forEach(({ key, rows }) => {
+    rows.slice(1).forEach(row => {
+      issues.push({
+        row,
+        label: key.value,
+        field: key.field,
+        message: `Duplicate key "${key.value}" (first used in row ${rows[0] + 1})`,
+      });
+    });
+  });
+  issues.sort((a, b) => a.row - b.row);
+
+  const invalidRows = new Set(issues.map(i => i.row));
+  return { source, total: data.length, valid: data.length - invalidRows.size, issues };
+}
+
+export function parseErrorReport(source: string, error: unknown): CrosswalkValidationReport {
+  return {
+    source,
+    total: 0,
+    valid: 0,
+    issues: [],
+    parseError: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { compareSdgCodes, isSdgCode, naturalCompare, sortIndexes, toggleSort } from './sort';
+
+const sorted = (values: string[]) => [...values].sort(naturalCompare);
+
+describe('naturalCompare', () => {
+  it('orders SDG codes segment by segment', () => {
+    expect(sorted(['11.10.1', '11.3.1', '1.4.2', '11.3.2', '2.1.1'])).toEqual(['1.4.2', '2.1.1', '11.3.1', '11.3.2', '11.10.1']);
+  });
+
+  it('puts numbered targets before letter targets, and a goal before its targets', () => {
+    expect(sorted(['5.b', '5.a', '5.5', '5'])).toEqual(['5', '5.5', '5.a', '5.b']);
+    expect(compareSdgCodes('5.a.1', '5.A.2')).toBeLessThan(0);
+  });
+
+  it('compares other text with embedded numbers', () => {
+    expect(sorted(['C20010', 'C2002', 'c2001'])).toEqual(['c2001', 'C2002', 'C20010']);
+  });
+
+  it('recognises goals, targets and indicators only', () => {
+    expect(['11', '5.a', '11.3.1', '11.3.1.1', 'LA_Party', '123.1'].map(isSdgCode)).toEqual([true, true, true, false, false, false]);
+  });
+});
+
+describe('sortIndexes', () => {
+  const rows = [
+    { indicator: '11.10.1', tier: 'B', ladmLink: ['a', 'b'] },
+    { indicator: '11.3.1', tier: 'A', ladmLink: [] },
+    { indicator: '1.4.2', tier: 'A' },
+    { indicator: '11.3.2', tier: 'B', ladmLink: ['a'] },
+  ];
+  const all = rows.map((_, i) => i);
+
+  it('keeps the input order without a sort', () => {
+    expect(sortIndexes(rows, [3, 1], [])).toEqual([3, 1]);
+  });
+
+  it('sorts by several columns, stable on ties', () => {
+    expect(sortIndexes(rows, all, [{ key: 'tier', dir: 'asc' }, { key: 'indicator', dir: 'desc' }])).toEqual([1, 2, 0, 3]);
+    expect(sortIndexes(rows, all, [{ key: 'tier', dir: 'desc' }])).toEqual([0, 3, 1, 2]);
+  });
+
+  it('orders arrays by item count or joined text, with empty values last either way', () => {
+    expect(sortIndexes(rows, all, [{ key: 'ladmLink', dir: 'desc' }])).toEqual([0, 3, 1, 2]);
+    expect(sortIndexes(rows, all, [{ key: 'ladmLink', dir: 'asc' }], 'joined')).toEqual([3, 0, 1, 2]);
+  });
+});
+
+describe('toggleSort', () => {
+  it('cycles a column through ascending, descending and off', () => {
+    const asc = toggleSort([], 'title', false);
+    expect(asc).toEqual([{ key: 'title', dir: 'asc' }]);
+    const desc = toggleSort(asc, 'title', false);
+    expect(desc).toEqual([{ key: 'title', dir: 'desc' }]);
+    expect(toggleSort(desc, 'title', false)).toEqual([]);
+  });
+
+  it('replaces the sort on a plain click and adds to it on a multi click', () => {
+    const specs = toggleSort([], 'tier', false);
+    expect(toggleSort(specs, 'title', false)).toEqual([{ key: 'title', dir: 'asc' }]);
+    const both = toggleSort(specs, 'title', true);
+    expect(both).toEqual([{ key: 'tier', dir: 'asc' }, { key: 'title', dir: 'asc' }]);
+    expect(toggleSort(both, 'tier', true)).toEqual([{ key: 'tier', dir: 'desc' }, { key: 'title', dir: 'asc' }]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { JsonRecord } from './schema';
+import { getField } from './filter';
+
+export type SortDirection = 'asc' | 'desc';
+export type SortSpec = { key: string; dir: SortDirection };
+
+// How array (and object) columns such as ladmLink or joins are ordered
+export type ArraySortMode = 'count' | 'joined';
+
+// Goal "11", target "5.a", indicator "11.3.1"
+const SDG_CODE = /^\d{1,2}(\.[0-9a-z]{1,2}){0,2}$/i;
+
+export const isSdgCode = (value: string) => SDG_CODE.test(value);
+
+// Segment-wise: numbers compare numerically and come before letter targets (5.5 < 5.a < 5.b)
+export function compareSdgCodes(a: string, b: string): number {
+  const as = a.split('.');
+  const bs = b.split('.');
+  for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+    const x = as[i];
+    const y = bs[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const xNum = /^\d+$/.test(x);
+    const yNum = /^\d+$/.test(y);
+    if (xNum && yNum) {
+      const d = Number(x) - Number(y);
+      if (d !== 0) return d;
+    } else if (xNum !== yNum) {
+      return xNum ? -1 : 1;
+    } else {
+      const d = x.toLowerCase().localeCompare(y.toLowerCase());
+      if (d !== 0) return d;
+    }
+  }
+  return 0;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function naturalCompare(a: string, b: string): number {
+  if (isSdgCode(a) && isSdgCode(b)) return compareSdgCodes(a, b);
+  return collator.compare(a, b);
+}
+
+type SortValue = number | string | null;
+
+function countItems(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce<number>((n, v) => n + (Array.isArray(v) ? v.length : v == null ? 0 : 1), 0);
+  }
+  return 0;
+}
+
+function sortValue(value: unknown, arrayMode: ArraySortMode): SortValue {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value) || typeof value === 'object') {
+    if (arrayMode === 'count') return countItems(value);
+    const joined = Array.isArray(value)
+      ? value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join(', ')
+      : JSON.stringify(value);
+    return joined === '' ? null : joined;
+  }
+  return String(value);
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return naturalCompare(String(a), String(b));
+}
+
+// Stable multi-column sort over row positions; empty values always go last
+export function sortIndexes(
+  rows: JsonRecord[],
+  indexes: number[],
+  specs: SortSpec[],
+  arrayMode: ArraySortMode = 'count'
+): number[] {
+  if (specs.length === 0) return indexes;
+
+  // Precompute keys once per row instead of on every comparison
+  const keyed = indexes.map(index => ({
+    index,
+    values: specs.map(spec => sortValue(getField(rows[index], spec.key), arrayMode)),
+  }));
+
+  keyed.sort((x, y) => {
+    for (let i = 0; i < specs.length; i++) {
+      const a = x.values[i];
+      const b = y.values[i];
+      if (a === null && b === null) continue;
+      if (a === null) return 1;
+      if (b === null) return -1;
+      const d = compareValues(a, b);
+      if (d !== 0) return specs[i].dir === 'asc' ? d : -d;
+    }
+    return x.index - y.index;
+  });
+
+  return keyed.map(k => k.index);
+}
+
+// Click cycles asc → desc → off; shift-click adds the column as a secondary sort
+export function toggleSort(specs: SortSpec[], key: string, multi: boolean): SortSpec[] {
+  const existing = specs.find(s => s.key === key);
+  const next: SortSpec | null = !existing
+    ? { key, dir: 'asc' }
+    : existing.dir === 'asc'
+    ? { key, dir: 'desc' }
+    : null;
+
+  if (!multi) return next ? [next] : [];
+  if (!existing) return [...specs, next as SortSpec];
+  return next ? specs.map(s => (s.key === key ? next : s)) : specs.filter(s => s.key !== key);
+}
@@ -0,0 +1,73 @@
+import { LADM_CLASSES, TIERS, type JsonRecord, type LadmClass, type Tier } from './schema';
+import { facetValues } from './facets';
+import { naturalCompare } from './sort';
+
+export type ValueCount = { value: string; count: number };
+
+export type GoalTiers = { goal: string; total: number; tiers: Record<Tier, number> };
+
+export type CrosswalkStats = {
+  goals: number;
+  targets: number;
+  indicators: number;
+  tiers: Record<Tier, number>;
+  tiersByGoal: GoalTiers[];
+  ladmShare: { cls: LadmClass; count: number; share: number }[];
+  externalData: ValueCount[];
+  spatialJoins: ValueCount[];
+  // heatmap[goal][class] = indicators of that goal linking the class
+  heatmap: { goals: string[]; classes: LadmClass[]; counts: Record<string, Record<string, number>> };
+};
+
+function countValues(rows: JsonRecord[], field: string): ValueCount[] {
+  const counts = new Map<string, number>();
+  rows.forEach(row => new Set(facetValues(row, field)).forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1)));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || naturalCompare(a.value, b.value)
+  );
+}
+
+const emptyTiers = () => Object.fromEntries(TIERS.map(t => [t, 0])) as Record<Tier, number>;
+
+export function computeStats(rows: JsonRecord[]): CrosswalkStats {
+  const goals = Array.from(new Set(rows.flatMap(r => facetValues(r, 'goal')))).sort(naturalCompare);
+  const targets = new Set(rows.flatMap(r => facetValues(r, 'target')));
+
+  const tiers = emptyTiers();
+  const byGoal = new Map<string, GoalTiers>(goals.map(goal => [goal, { goal, total: 0, tiers: emptyTiers() }]));
+  const heatmap: Record<string, Record<string, number>> = {};
+
+  rows.forEach(row => {
+    const goal = facetValues(row, 'goal')[0];
+    const tier = row.tier as Tier;
+    const known = (TIERS as readonly string[]).includes(tier);
+    if (known) tiers[tier]++;
+    if (!goal) return;
+
+    const entry = byGoal.get(goal)!;
+    entry.total++;
+    if (known) entry.tiers[tier]++;
+
+    heatmap[goal] ??= {};
+    new Set(facetValues(row, 'ladmLink')).forEach(cls => {
+      heatmap[goal][cls] = (heatmap[goal][cls] ?? 0) + 1;
+    });
+  });
+
+  const ladmCounts = new Map(countValues(rows, 'ladmLink').map(v => [v.value, v.count]));
+
+  return {
+    goals: goals.length,
+    targets: targets.size,
+    indicators: rows.length,
+    tiers,
+    tiersByGoal: Array.from(byGoal.values()),
+    ladmShare: LADM_CLASSES.map(cls => {
+      const count = ladmCounts.get(cls) ?? 0;
+      return { cls, count, share: rows.length > 0 ? count / rows.length : 0 };
+    }),
+    externalData: countValues(rows, 'externalData'),
+    spatialJoins: countValues(rows, 'joins.spatial'),
+    heatmap: { goals, classes: [...LADM_CLASSES], counts: heatmap },
+  };
+}
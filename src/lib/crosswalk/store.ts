@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { JsonRecord } from './schema';
+
+// Server-only: the default crosswalk shipped with the app
+export const DEFAULT_CROSSWALK_FILE = path.join(process.cwd(), 'public', 'data', 'crosswalk.v1.json');
+
+// Saved revisions live outside public/ so they are only reachable through the API
+export const REVISIONS_DIR = process.env.CROSSWALK_STORE_DIR
+  ? path.resolve(process.env.CROSSWALK_STORE_DIR)
+  : path.join(process.cwd(), '.data', 'crosswalk');
+
+export type RevisionMeta = {
+  version: number;
+  author: string;
+  message: string;
+  createdAt: string; // ISO timestamp
+  recordCount: number;
+  rollbackOf?: number;
+};
+
+export type Revision = RevisionMeta & { records: JsonRecord[] };
+
+export type NewRevision = {
+  records: JsonRecord[];
+  author: string;
+  message: string;
+  rollbackOf?: number;
+};
+
+export class RevisionNotFoundError extends Error {
+  constructor(version: number) {
+    super(`Revision v${version} does not exist`);
+    this.name = 'RevisionNotFoundError';
+  }
+}
+
+const revisionFile = (version: number) => path.join(REVISIONS_DIR, `v${version}.json`);
+
+async function readDefaultCrosswalk(): Promise<JsonRecord[]> {
+  const raw = await fs.readFile(DEFAULT_CROSSWALK_FILE, 'utf8');
+  const data = JSON.parse(raw);
+  return Array.isArray(data) ? data : [data];
+}
+
+async function listVersions(): Promise<number[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(REVISIONS_DIR);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+  return names
+    .map(name => /^v(\d+)\.json$/.exec(name))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map(m => Number(m[1]))
+    .sort((a, b) => a - b);
+}
+
+// Writes v<n>.json with an exclusive flag so concurrent saves never overwrite each other
+async function writeRevision(input: NewRevision): Promise<Revision> {
+  await fs.mkdir(REVISIONS_DIR, { recursive: true });
+  const versions = await listVersions();
+  let version = (versions[versions.length - 1] ?? 0) + 1;
+
+  for (;;) {
+    const revision: Revision = {
+      version,
+      author: input.author,
+      message: input.message,
+      createdAt: new Date().toISOString(),
+      recordCount: input.records.length,
+      ...(input.rollbackOf !== undefined ? { rollbackOf: input.rollbackOf } : {}),
+      records: input.records,
+    };
+    try {
+      await fs.writeFile(revisionFile(version), JSON.stringify(revision, null, 2), { flag: 'wx' });
+      return revision;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+      version++;
+    }
+  }
+}
+
+// v1 is the shipped crosswalk.v1.json. Reads serve it from the file until the first write
+// stores it, so a GET never writes to disk.
+async function defaultRevision(): Promise<Revision> {
+  const [records, stat] = await Promise.all([readDefaultCrosswalk(), fs.stat(DEFAULT_CROSSWALK_FILE)]);
+  return {
+    version: 1,
+    author: 'system',
+    message: 'Initial import from crosswalk.v1.json',
+    createdAt: stat.mtime.toISOString(),
+    recordCount: records.length,
+    records,
+  };
+}
+
+// Stores v1 before the first write
+async function ensureSeeded(): Promise<void> {
+  if ((await listVersions()).length > 0) return;
+  const seed = await defaultRevision();
+  await fs.mkdir(REVISIONS_DIR, { recursive: true });
+  try {
+    await fs.writeFile(revisionFile(1), JSON.stringify(seed, null, 2), { flag: 'wx' });
+  } catch (e) {
+    // Another request seeded the store first
+    if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+  }
+}
+
+export function toMeta(revision: Revision): RevisionMeta {
+  const { version, author, message, createdAt, recordCount, rollbackOf } = revision;
+  return { version, author, message, createdAt, recordCount, ...(rollbackOf !== undefined ? { rollbackOf } : {}) };
+}
+
+export async function getRevision(version: number): Promise<Revision> {
+  try {
+    const raw = await fs.readFile(revisionFile(version), 'utf8');
+    return JSON.parse(raw) as Revision;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    if (version === 1 && (await listVersions()).length === 0) return defaultRevision();
+    throw new RevisionNotFoundError(version);
+  }
+}
+
+export async function getLatestRevision(): Promise<Revision> {
+  const versions = await listVersions();
+  return versions.length > 0 ? getRevision(versions[versions.length - 1]) : defaultRevision();
+}
+
+// Newest first
+export async function listRevisions(): Promise<RevisionMeta[]> {
+  const versions = await listVersions();
+  const revisions = versions.length > 0 ? await Promise.all(versions.map(getRevision)) : [await defaultRevision()];
+  return revisions.map(toMeta).reverse();
+}
+
+export async function saveRevision(input: NewRevision): Promise<Revision> {
+  await ensureSeeded();
+  return writeRevision(input);
+}
+
+// Rolling back never deletes history: it re-saves an older revision as the newest one
+export async function rollbackToRevision(version: number, author: string, message?: string): Promise<Revision> {
+  await ensureSeeded();
+  const target = await getRevision(version);
+  return writeRevision({
+    records: target.records,
+    author,
+    message: message || `Rollback to v${version}`,
+    rollbackOf: version,
+  });
+}
+
+// Records served by the API: the latest saved revision
+export async function loadCrosswalk(): Promise<JsonRecord[]> {
+  return (await getLatestRevision()).records;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseXlsx, readRecordsFile, recordsToTable, tableToRecords, toCsv, toXlsx } from './tabular';
+
+const records = [
+  {
+    indicator: '11.3.1',
+    title: 'Ratio of land consumption rate to population growth rate',
+    ladmLink: ['LA_SpatialUnit', 'LA_BAUnit'],
+    joins: { spatial: ['admin_unit', 'built_up'], time: 'epoch' },
+  },
+  {
+    indicator: '1.4.2',
+    title: 'Secure tenure rights to land',
+    ladmLink: [],
+    joins: { spatial: ['parcel'], time: 'snapshot' },
+  },
+];
+const keys = ['indicator', 'title', 'ladmLink', 'joins'];
+
+describe('recordsToTable', () => {
+  it('flattens nested objects into dotted columns and marks array columns with []', () => {
+    const [header, first, second] = recordsToTable(records, keys);
+    expect(header).toEqual(['indicator', 'title', 'ladmLink[]', 'joins.spatial[]', 'joins.time']);
+    expect(first[2]).toBe('LA_SpatialUnit; LA_BAUnit');
+    expect(second[2]).toBe('');
+  });
+
+  it('escapes a ; inside an item', () => {
+    const [, row] = recordsToTable([{ note: ['a;b', 'c'] }], ['note']);
+    expect(row).toEqual(['a\\;b; c']);
+  });
+
+  it('only writes the requested columns', () => {
+    expect(recordsToTable(records, ['indicator'])[0]).toEqual(['indicator']);
+  });
+});
+
+describe('tableToRecords', () => {
+  it('gives back the same records', () => {
+    expect(tableToRecords(recordsToTable(records, keys))).toEqual(records);
+  });
+
+  it('keeps an escaped ; in the item and ignores empty items', () => {
+    const table = [['tags[]'], ['a\\;b;c; ;d'], ['']];
+    expect(tableToRecords(table)).toEqual([{ tags: ['a;b', 'c', 'd'] }]);
+  });
+
+  it('turns an empty array cell into an empty array and skips blank headers', () => {
+    expect(tableToRecords([['tags[]', '', 'title'], ['', 'x', 't']])).toEqual([{ tags: [], title: 't' }]);
+  });
+});
+
+describe('CSV', () => {
+  it('quotes separators, quotes and line breaks and reads them back', () => {
+    const table = [['a', 'b'], ['x, y', 'say "hi"\nbye']];
+    const csv = toCsv(table);
+    expect(csv).toBe('a,b\r\n"x, y","say ""hi""\nbye"\r\n');
+    expect(parseCsv(csv)).toEqual(table);
+  });
+
+  it('drops a byte order mark and accepts bare line feeds', () => {
+    expect(parseCsv('\uFEFFa,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('round trips records with arrays and escaped separators', () => {
+    const withSemicolon = [{ ...records[0], ladmLink: ['LA_RRR; restriction', 'LA_Party'] }];
+    expect(tableToRecords(parseCsv(toCsv(recordsToTable(withSemicolon, keys))))).toEqual(withSemicolon);
+  });
+});
+
+describe('XLSX', () => {
+  it('round trips the table', async () => {
+    const table = recordsToTable(records, keys);
+    expect(await parseXlsx(await toXlsx(table))).toEqual(table);
+  });
+
+  it('rejects a file that is not a workbook', async () => {
+    await expect(parseXlsx(new TextEncoder().encode('not a zip').buffer)).rejects.toThrow();
+  });
+});
+
+describe('readRecordsFile', () => {
+  it('picks the parser from the file extension', async () => {
+    const csv = new File([toCsv(recordsToTable(records, keys))], 'crosswalk.CSV');
+    expect(await readRecordsFile(csv)).toEqual(records);
+    expect(await readRecordsFile(new File([JSON.stringify(records[0])], 'one.json'))).toEqual([records[0]]);
+  });
+});
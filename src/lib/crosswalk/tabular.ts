@@ -0,0 +1,186 @@
+import type { JsonRecord } from './schema';
+
+/*
+ * Spreadsheet layout for crosswalk records (CSV and XLSX share it):
+ *
+ * - Nested objects are flattened into dotted columns: `joins` becomes `joins.spatial`,
+ *   `joins.id` and `joins.time`.
+ * - Array columns carry a `[]` suffix in the header, e.g. `ladmLink[]` or `joins.spatial[]`.
+ *   Their items are joined with "; ". A literal ";" inside an item is written as "\;".
+ * - Every other column is plain text.
+ *
+ * Import reverses this: dotted headers rebuild the nested objects and `[]` headers are split
+ * back into arrays (an empty cell is an empty array), so a round trip gives back the same JSON.
+ */
+
+export const ARRAY_SEPARATOR = '; ';
+export const ARRAY_SUFFIX = '[]';
+
+type Column = { path: string[]; isArray: boolean };
+
+const isPlainObject = (v: unknown): v is JsonRecord =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const headerOf = (c: Column) => c.path.join('.') + (c.isArray ? ARRAY_SUFFIX : '');
+
+function collectColumns(rows: JsonRecord[], keys: string[]): Column[] {
+  const columns = new Map<string, Column>();
+  const visit = (value: unknown, path: string[]) => {
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([k, v]) => visit(v, [...path, k]));
+      return;
+    }
+    const id = path.join('.');
+    const existing = columns.get(id);
+    const isArray = Array.isArray(value);
+    if (!existing) columns.set(id, { path, isArray });
+    else if (isArray) existing.isArray = true;
+  };
+  // Walk in key order so columns follow the explorer's column order
+  keys.forEach(key => rows.forEach(row => {
+    if (key in row) visit(row[key], [key]);
+  }));
+  return Array.from(columns.values());
+}
+
+const escapeItem = (item: unknown) =>
+  (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)).replace(/;/g, '\\;');
+
+function cellValue(row: JsonRecord, column: Column): string {
+  const value = column.path.reduce<unknown>((acc, part) => (isPlainObject(acc) ? acc[part] : undefined), row);
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(escapeItem).join(ARRAY_SEPARATOR);
+  if (column.isArray) return escapeItem(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Header row followed by one row per record
+export function recordsToTable(rows: JsonRecord[], keys: string[]): string[][] {
+  const columns = collectColumns(rows, keys);
+  return [columns.map(headerOf), ...rows.map(row => columns.map(c => cellValue(row, c)))];
+}
+
+function splitItems(cell: string): string[] {
+  if (cell.trim() === '') return [];
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < cell.length; i++) {
+    const ch = cell[i];
+    if (ch === '\\' && cell[i + 1] === ';') {
+      current += ';';
+      i++;
+    } else if (ch === ';') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current.trim());
+  return items.filter(item => item !== '');
+}
+
+export function tableToRecords(table: string[][]): JsonRecord[] {
+  const [header, ...body] = table;
+  if (!header) return [];
+  const columns: Column[] = header.map(h => {
+    const name = h.trim();
+    const isArray = name.endsWith(ARRAY_SUFFIX);
+    const path = (isArray ? name.slice(0, -ARRAY_SUFFIX.length) : name).split('.');
+    return { path, isArray };
+  });
+
+  return body
+    .filter(cells => cells.some(cell => cell !== ''))
+    .map(cells => {
+      const record: JsonRecord = {};
+      columns.forEach((column, i) => {
+        if (column.path[0] === '') return;
+        const cell = cells[i] ?? '';
+        const value = column.isArray ? splitItems(cell) : cell;
+        let target = record;
+        column.path.slice(0, -1).forEach(part => {
+          if (!isPlainObject(target[part])) target[part] = {};
+          target = target[part];
+        });
+        target[column.path[column.path.length - 1]] = value;
+      });
+      return record;
+    });
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+export function toCsv(table: string[][]): string {
+  const quote = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return table.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    table.push(row);
+  }
+  return table;
+}
+
+export async function toXlsx(table: string[][], sheetName = 'crosswalk'): Promise<ArrayBuffer> {
+  const { Workbook } = (await import('exceljs')).default;
+  const workbook = new Workbook();
+  workbook.addWorksheet(sheetName).addRows(table);
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+// Reads the first worksheet as text cells, padded to the sheet's width
+export async function parseXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = (await import('exceljs')).default;
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const width = sheet.columnCount;
+  return Array.from({ length: sheet.rowCount }, (_, r) => {
+    const row = sheet.getRow(r + 1);
+    return Array.from({ length: width }, (_, c) => row.getCell(c + 1).text ?? '');
+  });
+}
+
+// Records from an uploaded .json, .csv or .xlsx file; a single JSON object becomes one record
+export async function readRecordsFile(file: File): Promise<JsonRecord[]> {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'csv') return tableToRecords(parseCsv(await file.text()));
+  if (ext === 'xlsx') return tableToRecords(await parseXlsx(await file.arrayBuffer()));
+  const json = JSON.parse(await file.text());
+  return Array.isArray(json) ? json : [json];
+}
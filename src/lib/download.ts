@@ -0,0 +1,14 @@
+// Triggers a browser download for generated content (JSON exports, change logs, GeoJSON)
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export const today = () => new Date().toISOString().split('T')[0];
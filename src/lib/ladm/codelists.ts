@@ -0,0 +1,89 @@
+// LADM (ISO 19152) code lists used by the core model. Values follow Annex J of the standard;
+// a country profile would extend them.
+
+export const PARTY_TYPES = ['naturalPerson', 'nonNaturalPerson', 'baunit', 'group'] as const;
+
+export const PARTY_ROLE_TYPES = [
+  'bank',
+  'certifiedSurveyor',
+  'citizen',
+  'conveyancer',
+  'employee',
+  'farmer',
+  'moneyProvider',
+  'notary',
+  'stateAdministrator',
+  'surveyor',
+  'writer',
+] as const;
+
+export const RIGHT_TYPES = [
+  'agriActivity',
+  'commonOwnership',
+  'customaryType',
+  'fishing',
+  'grazing',
+  'informalOccupation',
+  'lease',
+  'occupation',
+  'ownership',
+  'ownershipAssumed',
+  'superficies',
+  'usufruct',
+  'waterrights',
+  'publicAccess', // profile extension: access for all, held for the public (11.7.1)
+] as const;
+
+export const RESTRICTION_TYPES = [
+  'adminPublicServitude',
+  'monument',
+  'monumentPartly',
+  'mortgage',
+  'noBuilding',
+  'publicPassage', // profile extension: the owner must keep the parcel open to the public (11.7.1)
+  'servitude',
+  'servitudePartly',
+] as const;
+
+export const RESPONSIBILITY_TYPES = ['monumentMaintenance', 'waterwayMaintenance'] as const;
+
+export const BAUNIT_TYPES = ['basicPropertyUnit', 'leasedUnit', 'rightOfUseUnit'] as const;
+
+export const ADMINISTRATIVE_SOURCE_TYPES = [
+  'agriConsent',
+  'agriLease',
+  'agriNotaryStatement',
+  'deed',
+  'mortgage',
+  'title',
+] as const;
+
+export const SPATIAL_SOURCE_TYPES = ['fieldSketch', 'gnssSurvey', 'orthoPhoto', 'relativeMeasurement', 'topoMap', 'video'] as const;
+
+export const AVAILABILITY_STATUS_TYPES = [
+  'archiveConverted',
+  'archiveDestroyed',
+  'archiveIncomplete',
+  'archiveUnknown',
+  'available',
+] as const;
+
+export const AREA_TYPES = ['calculatedArea', 'nonOfficialArea', 'officialArea', 'surveyedArea'] as const;
+
+// Country-profile extensions used by the tenure indicators (1.4.2, 5.a.1); not part of the core
+export const SEX_TYPES = ['female', 'male'] as const;
+
+export const LAND_USE_TYPES = ['agricultural', 'residential', 'commercial', 'public'] as const;
+
+export type PartyType = (typeof PARTY_TYPES)[number];
+export type PartyRoleType = (typeof PARTY_ROLE_TYPES)[number];
+export type RightType = (typeof RIGHT_TYPES)[number];
+export type RestrictionType = (typeof RESTRICTION_TYPES)[number];
+export type ResponsibilityType = (typeof RESPONSIBILITY_TYPES)[number];
+export type BAUnitType = (typeof BAUNIT_TYPES)[number];
+export type AdministrativeSourceType = (typeof ADMINISTRATIVE_SOURCE_TYPES)[number];
+export type SpatialSourceType = (typeof SPATIAL_SOURCE_TYPES)[number];
+export type AvailabilityStatusType = (typeof AVAILABILITY_STATUS_TYPES)[number];
+export type AreaType = (typeof AREA_TYPES)[number];
+export type SexType = (typeof SEX_TYPES)[number];
+export type LandUseType = (typeof LAND_USE_TYPES)[number];
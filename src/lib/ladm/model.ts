@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import type { LadmClass } from '@/lib/crosswalk/schema';
+import {
+  ADMINISTRATIVE_SOURCE_TYPES,
+  AREA_TYPES,
+  AVAILABILITY_STATUS_TYPES,
+  BAUNIT_TYPES,
+  LAND_USE_TYPES,
+  PARTY_ROLE_TYPES,
+  PARTY_TYPES,
+  RESPONSIBILITY_TYPES,
+  RESTRICTION_TYPES,
+  RIGHT_TYPES,
+  SEX_TYPES,
+  SPATIAL_SOURCE_TYPES,
+} from './codelists';
+
+/*
+ * LADM (ISO 19152) core classes. Object identifiers (Oid) are plain strings unique per class;
+ * versions of one object share the identifier. Associations are held as id references on one side:
+ *
+ * - rrrParty, unitRrr: LA_RRR.party and LA_RRR.baunit
+ * - suBaunit: LA_BAUnit.spatialUnits
+ * - suSuGroup: LA_SpatialUnitGroup.spatialUnits
+ * - rrrSource, suSource: LA_RRR.sources and LA_SpatialUnit.sources
+ */
+
+const id = z.string().min(1, 'Identifier is required');
+const isoDate = z.iso.datetime({ offset: true, error: 'Must be an ISO 8601 date-time' });
+
+// VersionedObject: every class keeps the lifespan of its version in the register, and optionally
+// the real-world lifespan of the fact it records (see time.ts)
+const versioned = {
+  beginLifespanVersion: isoDate,
+  endLifespanVersion: isoDate.nullable().default(null),
+  beginRealWorldLifespanVersion: isoDate.optional(),
+  endRealWorldLifespanVersion: isoDate.nullable().optional(),
+};
+
+// Share of a right, e.g. 1/2
+export const fractionSchema = z
+  .object({ numerator: z.number().int().positive(), denominator: z.number().int().positive() })
+  .refine(f => f.numerator <= f.denominator, 'Share cannot exceed 1');
+
+export const partySchema = z.object({
+  pID: id,
+  name: z.string().min(1, 'Name is required'),
+  type: z.enum(PARTY_TYPES),
+  role: z.array(z.enum(PARTY_ROLE_TYPES)).default([]),
+  extPID: z.string().optional(), // e.g. national id number
+  // Profile extensions for natural persons
+  sex: z.enum(SEX_TYPES).optional(),
+  birthDate: z.iso.date({ error: 'Must be an ISO 8601 date' }).optional(),
+  residence: z.string().optional(), // admin_code of the unit the person lives in
+  agricultural: z.boolean().optional(), // member of an agricultural household
+  ...versioned,
+});
+
+const rrrBase = {
+  rID: id,
+  party: id,
+  baunit: id,
+  share: fractionSchema.optional(),
+  description: z.string().optional(),
+  sources: z.array(id).default([]),
+  ...versioned,
+};
+
+export const rrrSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('right'), type: z.enum(RIGHT_TYPES), ...rrrBase }),
+  z.object({ kind: z.literal('restriction'), type: z.enum(RESTRICTION_TYPES), ...rrrBase }),
+  z.object({ kind: z.literal('responsibility'), type: z.enum(RESPONSIBILITY_TYPES), ...rrrBase }),
+]);
+
+export const baunitSchema = z.object({
+  uID: id,
+  name: z.string(),
+  type: z.enum(BAUNIT_TYPES),
+  spatialUnits: z.array(id).default([]),
+  ...versioned,
+});
+
+const position = z.tuple([z.number(), z.number()]).rest(z.number());
+const ring = z.array(position).min(4, 'A ring needs at least 4 positions');
+
+export const spatialUnitSchema = z.object({
+  suID: id,
+  label: z.string(),
+  area: z.object({ areaSize: z.number().nonnegative(), type: z.enum(AREA_TYPES) }).optional(),
+  geometry: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('Polygon'), coordinates: z.array(ring).min(1) }),
+    z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(ring).min(1)).min(1) }),
+  ]),
+  sources: z.array(id).default([]),
+  landUse: z.enum(LAND_USE_TYPES).optional(), // profile extension
+  ...versioned,
+});
+
+export const spatialUnitGroupSchema = z.object({
+  sugID: id,
+  name: z.string(),
+  label: z.string(), // e.g. the admin_code of the matching admin unit
+  hierarchyLevel: z.number().int().nonnegative(),
+  spatialUnits: z.array(id),
+  ...versioned,
+});
+
+const sourceBase = {
+  sID: id,
+  acceptance: isoDate.optional(),
+  recordation: isoDate.optional(),
+  availabilityStatus: z.enum(AVAILABILITY_STATUS_TYPES),
+  ...versioned,
+};
+
+export const sourceSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('administrative'), type: z.enum(ADMINISTRATIVE_SOURCE_TYPES), ...sourceBase }),
+  z.object({ kind: z.literal('spatial'), type: z.enum(SPATIAL_SOURCE_TYPES), ...sourceBase }),
+]);
+
+export const registerSchema = z.object({
+  name: z.string(),
+  parties: z.array(partySchema),
+  rrrs: z.array(rrrSchema),
+  baunits: z.array(baunitSchema),
+  spatialUnits: z.array(spatialUnitSchema),
+  spatialUnitGroups: z.array(spatialUnitGroupSchema),
+  sources: z.array(sourceSchema),
+});
+
+export type Fraction = z.infer<typeof fractionSchema>;
+export type LA_Party = z.infer<typeof partySchema>;
+export type LA_RRR = z.infer<typeof rrrSchema>;
+export type LA_Right = Extract<LA_RRR, { kind: 'right' }>;
+export type LA_Restriction = Extract<LA_RRR, { kind: 'restriction' }>;
+export type LA_Responsibility = Extract<LA_RRR, { kind: 'responsibility' }>;
+export type LA_BAUnit = z.infer<typeof baunitSchema>;
+export type LA_SpatialUnit = z.infer<typeof spatialUnitSchema>;
+export type LA_SpatialUnitGroup = z.infer<typeof spatialUnitGroupSchema>;
+export type LA_Source = z.infer<typeof sourceSchema>;
+export type LadmRegister = z.infer<typeof registerSchema>;
+
+// Register collections keyed by class, with the identifier attribute of each
+export const REGISTER_COLLECTIONS = {
+  LA_Party: { key: 'parties', id: 'pID' },
+  LA_RRR: { key: 'rrrs', id: 'rID' },
+  LA_BAUnit: { key: 'baunits', id: 'uID' },
+  LA_SpatialUnit: { key: 'spatialUnits', id: 'suID' },
+  LA_SpatialUnitGroup: { key: 'spatialUnitGroups', id: 'sugID' },
+  LA_Source: { key: 'sources', id: 'sID' },
+} as const satisfies Record<LadmClass, { key: keyof LadmRegister; id: string }>;
+
+export const fractionValue = (f: Fraction | undefined) => (f ? f.numerator / f.denominator : 1);
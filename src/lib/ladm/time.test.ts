@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { registerSchema } from './model';
+import { asKnownAt, contains, isValidAt, overlaps, snapshot, validTime, validVersions, type VersionedObject } from './time';
+
+const d = (date: string) => `${date}T00:00:00Z`;
+
+describe('intervals', () => {
+  it('are half-open, with a null end left open', () => {
+    const interval = { begin: d('2020-01-01'), end: d('2021-01-01') };
+    expect(contains(interval, d('2020-01-01'))).toBe(true);
+    expect(contains(interval, d('2021-01-01'))).toBe(false);
+    expect(contains({ begin: d('2020-01-01'), end: null }, d('2099-01-01'))).toBe(true);
+  });
+
+  it('overlap only when they share an instant', () => {
+    const a = { begin: d('2020-01-01'), end: d('2021-01-01') };
+    expect(overlaps(a, { begin: d('2021-01-01'), end: null })).toBe(false);
+    expect(overlaps(a, { begin: d('2020-06-01'), end: null })).toBe(true);
+    expect(overlaps({ begin: d('2019-01-01'), end: null }, a)).toBe(true);
+  });
+
+  it('take valid time from the real-world lifespan, else from registration', () => {
+    const registered = { beginLifespanVersion: d('2022-06-01'), endLifespanVersion: null };
+    expect(validTime(registered)).toEqual({ begin: d('2022-06-01'), end: null });
+    const backdated = { ...registered, beginRealWorldLifespanVersion: d('2020-01-15') };
+    expect(validTime(backdated)).toEqual({ begin: d('2020-01-15'), end: null });
+    expect(isValidAt(backdated, d('2021-01-01'))).toBe(true);
+    expect(isValidAt(registered, d('2021-01-01'))).toBe(false);
+  });
+});
+
+describe('asKnownAt', () => {
+  // v1 registered 2015, corrected by v2 in 2021
+  const versions = [
+    { id: 'A', v: 1, beginLifespanVersion: d('2015-01-01'), endLifespanVersion: d('2021-03-15') },
+    { id: 'A', v: 2, beginLifespanVersion: d('2021-03-15'), endLifespanVersion: null },
+    { id: 'B', v: 1, beginLifespanVersion: d('2022-01-01'), endLifespanVersion: null },
+  ];
+  const known = (at?: string) => asKnownAt(versions, o => o.id, at).map(o => `${o.id}${o.v}`);
+
+  it('keeps the latest version of each object', () => {
+    expect(known()).toEqual(['A2', 'B1']);
+    expect(known(d('2021-03-15'))).toEqual(['A2']);
+  });
+
+  it('ignores versions registered later and reopens an end that was not known yet', () => {
+    expect(known(d('2020-01-01'))).toEqual(['A1']);
+    expect(asKnownAt(versions, o => o.id, d('2020-01-01'))[0].endLifespanVersion).toBeNull();
+    expect(known(d('2014-01-01'))).toEqual([]);
+  });
+});
+
+describe('validVersions', () => {
+  const valid = (versions: (VersionedObject & { v: number })[], at: string, known?: string) =>
+    validVersions(versions, () => 'A', { valid: at, known }).map(o => o.v);
+
+  it('picks the version whose valid time contains the date, not the latest one', () => {
+    const updated = [
+      { v: 1, beginLifespanVersion: d('2010-01-01'), endLifespanVersion: d('2015-01-01') },
+      { v: 2, beginLifespanVersion: d('2015-01-01'), endLifespanVersion: null },
+    ];
+    expect(valid(updated, d('2012-01-01'))).toEqual([1]);
+    expect(valid(updated, d('2016-01-01'))).toEqual([2]);
+    expect(valid(updated, d('2016-01-01'), d('2012-01-01'))).toEqual([1]);
+  });
+
+  it('lets a correction with the same valid time replace the corrected version', () => {
+    const corrected = [
+      { v: 1, beginLifespanVersion: d('2014-09-10'), endLifespanVersion: d('2021-03-15') },
+      { v: 2, beginLifespanVersion: d('2021-03-15'), endLifespanVersion: null, beginRealWorldLifespanVersion: d('2014-09-10') },
+    ];
+    expect(valid(corrected, d('2018-01-01'))).toEqual([2]);
+    expect(valid(corrected, d('2018-01-01'), d('2020-01-01'))).toEqual([1]);
+  });
+});
+
+describe('snapshot', () => {
+  const square = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] };
+  const since = { beginLifespanVersion: d('2012-01-01') };
+  // A lease valid from 2020 but only registered in 2022, and a source recorded in 2022
+  const register = registerSchema.parse({
+    name: 'test',
+    parties: [{ pID: 'P1', name: 'A', type: 'naturalPerson', ...since }],
+    sources: [
+      { sID: 'S1', kind: 'administrative', type: 'title', availabilityStatus: 'available', ...since },
+      { sID: 'S2', kind: 'administrative', type: 'agriLease', availabilityStatus: 'available', beginLifespanVersion: d('2022-06-01') },
+    ],
+    spatialUnits: [{ suID: 'SU1', label: 'SU1', geometry: square, ...since }],
+    baunits: [{ uID: 'U1', name: 'U1', type: 'basicPropertyUnit', spatialUnits: ['SU1'], ...since }],
+    rrrs: [
+      { rID: 'R1', kind: 'right', type: 'ownership', party: 'P1', baunit: 'U1', sources: ['S1'], ...since, endLifespanVersion: d('2019-01-01') },
+      {
+        rID: 'R2', kind: 'right', type: 'lease', party: 'P1', baunit: 'U1', sources: ['S2'],
+        beginLifespanVersion: d('2022-06-01'), beginRealWorldLifespanVersion: d('2020-01-15'),
+      },
+    ],
+    spatialUnitGroups: [],
+  });
+  const rights = (asOf: { valid: string; known?: string }) => snapshot(register, asOf).rrrs.map(r => r.rID);
+
+  it('keeps what was valid on the reference date', () => {
+    expect(rights({ valid: d('2018-01-01') })).toEqual(['R1']);
+    expect(rights({ valid: d('2021-01-01') })).toEqual(['R2']);
+  });
+
+  it('leaves out entries registered after the knowledge date', () => {
+    expect(rights({ valid: d('2021-01-01'), known: d('2021-12-31') })).toEqual([]);
+    expect(rights({ valid: d('2021-01-01'), known: d('2022-06-01') })).toEqual(['R2']);
+  });
+
+  it('returns an updated object as it was on the reference date', () => {
+    const updated = registerSchema.parse({
+      ...register,
+      parties: [
+        { pID: 'P1', name: 'Before', type: 'naturalPerson', beginLifespanVersion: d('2010-01-01'), endLifespanVersion: d('2015-01-01') },
+        { pID: 'P1', name: 'After', type: 'naturalPerson', beginLifespanVersion: d('2015-01-01') },
+      ],
+    });
+    expect(snapshot(updated, { valid: d('2012-01-01') }).parties.map(p => p.name)).toEqual(['Before']);
+    expect(snapshot(updated, { valid: d('2020-01-01') }).parties.map(p => p.name)).toEqual(['After']);
+  });
+
+  it('filters sources by knowledge only', () => {
+    const sources = (known?: string) => snapshot(register, { valid: d('2013-01-01'), known }).sources.map(s => s.sID);
+    expect(sources()).toEqual(['S1', 'S2']);
+    expect(sources(d('2021-12-31'))).toEqual(['S1']);
+  });
+});
@@ -0,0 +1,87 @@
+import type { LadmRegister } from './model';
+
+/*
+ * Bitemporal queries over LADM records. Every object version has two intervals:
+ *
+ * - registration time: beginLifespanVersion / endLifespanVersion, when this version was in the
+ *   register. A correction ends the old version and starts a new one with the same identifier.
+ * - valid time: beginRealWorldLifespanVersion / endRealWorldLifespanVersion, when the fact held on
+ *   the ground. Records without it are taken to be valid while registered.
+ *
+ * A snapshot picks what the register knew on one date and keeps what was valid on another, so an
+ * indicator for 2020 computed on the register as known in 2021 does not change with later entries.
+ */
+
+// Half-open [begin, end); end null is open
+export type Interval = { begin: string; end: string | null };
+
+export type VersionedObject = {
+  beginLifespanVersion: string;
+  endLifespanVersion: string | null;
+  beginRealWorldLifespanVersion?: string;
+  endRealWorldLifespanVersion?: string | null;
+};
+
+export type AsOf = {
+  valid: string; // the date the facts are about
+  known?: string; // the register as it stood on this date; latest when omitted
+};
+
+export const contains = (interval: Interval, at: string) =>
+  Date.parse(interval.begin) <= Date.parse(at) && (interval.end === null || Date.parse(at) < Date.parse(interval.end));
+
+export const overlaps = (a: Interval, b: Interval) =>
+  (a.end === null || Date.parse(b.begin) < Date.parse(a.end)) && (b.end === null || Date.parse(a.begin) < Date.parse(b.end));
+
+export const registrationTime = (o: VersionedObject): Interval => ({ begin: o.beginLifespanVersion, end: o.endLifespanVersion });
+
+export const validTime = (o: VersionedObject): Interval =>
+  o.beginRealWorldLifespanVersion === undefined
+    ? registrationTime(o)
+    : { begin: o.beginRealWorldLifespanVersion, end: o.endRealWorldLifespanVersion ?? null };
+
+export const isValidAt = (o: VersionedObject, at: string) => contains(validTime(o), at);
+
+// Versions registered by `at` (all when omitted). An end that was registered after `at` was not
+// known yet, so it is reopened.
+function knownVersions<T extends VersionedObject>(versions: T[], at?: string): T[] {
+  if (at === undefined) return versions;
+  return versions
+    .filter(v => Date.parse(v.beginLifespanVersion) <= Date.parse(at))
+    .map(v =>
+      v.endLifespanVersion !== null && Date.parse(v.endLifespanVersion) > Date.parse(at) ? { ...v, endLifespanVersion: null } : v
+    );
+}
+
+// The most recently registered version of each object
+function latestById<T extends VersionedObject>(versions: T[], id: (o: T) => string): T[] {
+  const latest = new Map<string, T>();
+  versions.forEach(v => {
+    const seen = latest.get(id(v));
+    if (!seen || Date.parse(v.beginLifespanVersion) > Date.parse(seen.beginLifespanVersion)) latest.set(id(v), v);
+  });
+  return Array.from(latest.values());
+}
+
+// The latest version of each object registered by `at` (as the register stands now when omitted)
+export const asKnownAt = <T extends VersionedObject>(versions: T[], id: (o: T) => string, at?: string): T[] =>
+  latestById(knownVersions(versions, at), id);
+
+// Of the versions known on `asOf.known`, the one of each object valid on `asOf.valid`. An older
+// version still answers for the dates it covers; a correction with the same valid time wins.
+export const validVersions = <T extends VersionedObject>(versions: T[], id: (o: T) => string, asOf: AsOf): T[] =>
+  latestById(knownVersions(versions, asOf.known).filter(v => isValidAt(v, asOf.valid)), id);
+
+// The register as known on `asOf.known`, reduced to what was valid on `asOf.valid`. Sources are
+// kept whenever known; whether a document counted on the valid date is up to its acceptance date.
+export function snapshot(register: LadmRegister, asOf: AsOf): LadmRegister {
+  return {
+    name: register.name,
+    parties: validVersions(register.parties, p => p.pID, asOf),
+    rrrs: validVersions(register.rrrs, r => r.rID, asOf),
+    baunits: validVersions(register.baunits, u => u.uID, asOf),
+    spatialUnits: validVersions(register.spatialUnits, s => s.suID, asOf),
+    spatialUnitGroups: validVersions(register.spatialUnitGroups, g => g.sugID, asOf),
+    sources: asKnownAt(register.sources, s => s.sID, asOf.known),
+  };
+}
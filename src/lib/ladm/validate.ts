@@ -0,0 +1,129 @@
+import type { LadmClass } from '@/lib/crosswalk/schema';
+import { REGISTER_COLLECTIONS, fractionValue, registerSchema, type LadmRegister } from './model';
+import { overlaps, registrationTime, type VersionedObject } from './time';
+
+export type LadmIssue = {
+  cls: LadmClass | null; // null for issues with the register as a whole
+  id: string; // identifier of the object, if known
+  field: string; // attribute or association name, e.g. "type" or "rrrParty"
+  message: string;
+};
+
+export type LadmValidationReport = {
+  register: LadmRegister | null; // only set when the structure parses
+  issues: LadmIssue[];
+};
+
+const CLASS_BY_KEY = Object.fromEntries(
+  Object.entries(REGISTER_COLLECTIONS).map(([cls, { key, id }]) => [key, { cls: cls as LadmClass, id }])
+);
+
+const isCurrent = (o: { endLifespanVersion: string | null }) => o.endLifespanVersion === null;
+
+// Structure first (zod), then the model's rules on associations, multiplicities and shares
+export function validateRegister(data: unknown): LadmValidationReport {
+  const parsed = registerSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const [key, index, ...field] = issue.path;
+      const target = CLASS_BY_KEY[String(key)];
+      const row = target && typeof index === 'number' ? (data as Record<string, Record<string, unknown>[]>)[key as string][index] : null;
+      return {
+        cls: target?.cls ?? null,
+        id: row ? String(row[target.id] ?? `#${(index as number) + 1}`) : '',
+        field: field.length > 0 ? field.join('.') : issue.path.join('.') || '(register)',
+        message: issue.message,
+      };
+    });
+    return { register: null, issues };
+  }
+  const register = parsed.data;
+  return { register, issues: checkRules(register) };
+}
+
+export function checkRules(register: LadmRegister): LadmIssue[] {
+  const issues: LadmIssue[] = [];
+  const push = (cls: LadmClass, id: string, field: string, message: string) => issues.push({ cls, id, field, message });
+
+  // Oids are unique per class; versions of one object may share it if they do not overlap in time
+  (Object.entries(REGISTER_COLLECTIONS) as [LadmClass, { key: keyof LadmRegister; id: string }][]).forEach(([cls, { key, id }]) => {
+    const seen = new Map<string, VersionedObject[]>();
+    (register[key] as unknown as (VersionedObject & Record<string, string>)[]).forEach(o => {
+      const versions = seen.get(o[id]) ?? [];
+      if (versions.some(v => overlaps(registrationTime(v), registrationTime(o)))) push(cls, o[id], id, `Duplicate ${cls} identifier`);
+      seen.set(o[id], [...versions, o]);
+    });
+  });
+
+  const parties = new Set(register.parties.map(p => p.pID));
+  const baunits = new Set(register.baunits.map(u => u.uID));
+  const spatialUnits = new Set(register.spatialUnits.map(s => s.suID));
+  const sources = new Map(register.sources.map(s => [s.sID, s]));
+
+  const lifespan = (cls: LadmClass, id: string, o: VersionedObject) => {
+    if (o.endLifespanVersion !== null && Date.parse(o.endLifespanVersion) <= Date.parse(o.beginLifespanVersion)) {
+      push(cls, id, 'endLifespanVersion', 'Lifespan ends before it begins');
+    }
+    const { beginRealWorldLifespanVersion: begin, endRealWorldLifespanVersion: end } = o;
+    if (begin !== undefined && end != null && Date.parse(end) <= Date.parse(begin)) {
+      push(cls, id, 'endRealWorldLifespanVersion', 'Real-world lifespan ends before it begins');
+    }
+    if (begin === undefined && end != null) push(cls, id, 'beginRealWorldLifespanVersion', 'Real-world lifespan has an end but no begin');
+  };
+  register.parties.forEach(p => lifespan('LA_Party', p.pID, p));
+  register.baunits.forEach(u => lifespan('LA_BAUnit', u.uID, u));
+  register.spatialUnits.forEach(s => lifespan('LA_SpatialUnit', s.suID, s));
+  register.spatialUnitGroups.forEach(g => lifespan('LA_SpatialUnitGroup', g.sugID, g));
+  register.sources.forEach(s => lifespan('LA_Source', s.sID, s));
+
+  // Every RRR links exactly one party and one BAUnit, and is supported by an administrative source
+  register.rrrs.forEach(r => {
+    lifespan('LA_RRR', r.rID, r);
+    if (!parties.has(r.party)) push('LA_RRR', r.rID, 'rrrParty', `Party ${r.party} does not exist`);
+    if (!baunits.has(r.baunit)) push('LA_RRR', r.rID, 'unitRrr', `BAUnit ${r.baunit} does not exist`);
+    if (r.sources.length === 0) push('LA_RRR', r.rID, 'rrrSource', 'No source document');
+    r.sources.forEach(s => {
+      const source = sources.get(s);
+      if (!source) push('LA_RRR', r.rID, 'rrrSource', `Source ${s} does not exist`);
+      else if (source.kind !== 'administrative') push('LA_RRR', r.rID, 'rrrSource', `Source ${s} is not an administrative source`);
+    });
+  });
+
+  // A BAUnit holds at least one current RRR, and its spatial units exist
+  const current = register.rrrs.filter(isCurrent);
+  register.baunits.forEach(u => {
+    if (isCurrent(u) && !current.some(r => r.baunit === u.uID)) push('LA_BAUnit', u.uID, 'unitRrr', 'No current right, restriction or responsibility');
+    u.spatialUnits.forEach(s => {
+      if (!spatialUnits.has(s)) push('LA_BAUnit', u.uID, 'suBaunit', `Spatial unit ${s} does not exist`);
+    });
+  });
+
+  // Shares of current rights of one type on one BAUnit add up to 1
+  const shares = new Map<string, number>();
+  current.forEach(r => {
+    if (r.kind !== 'right' || !r.share) return;
+    const key = `${r.baunit}\u0000${r.type}`;
+    shares.set(key, (shares.get(key) ?? 0) + fractionValue(r.share));
+  });
+  shares.forEach((total, key) => {
+    const [baunit, type] = key.split('\u0000');
+    if (Math.abs(total - 1) > 1e-9) push('LA_BAUnit', baunit, 'share', `Shares of ${type} add up to ${+total.toFixed(4)}, not 1`);
+  });
+
+  register.spatialUnits.forEach(s => {
+    s.sources.forEach(id => {
+      const source = sources.get(id);
+      if (!source) push('LA_SpatialUnit', s.suID, 'suSource', `Source ${id} does not exist`);
+      else if (source.kind !== 'spatial') push('LA_SpatialUnit', s.suID, 'suSource', `Source ${id} is not a spatial source`);
+    });
+  });
+
+  register.spatialUnitGroups.forEach(g => {
+    if (g.spatialUnits.length === 0) push('LA_SpatialUnitGroup', g.sugID, 'suSuGroup', 'Group has no spatial units');
+    g.spatialUnits.forEach(s => {
+      if (!spatialUnits.has(s)) push('LA_SpatialUnitGroup', g.sugID, 'suSuGroup', `Spatial unit ${s} does not exist`);
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,9 @@
+import { SDG_1131 } from '@/lib/sdg1131/definition';
+import { SDG_1171, SDG_1171_ACCESS } from '@/lib/sdg1171/definition';
+import type { IndicatorDefinition } from './engine';
+
+// Indicators with pipeline definitions, by indicator code; an indicator may have several parts
+export const INDICATOR_DEFINITIONS: Record<string, IndicatorDefinition[]> = {
+  [SDG_1131.indicator]: [SDG_1131],
+  [SDG_1171.indicator]: [SDG_1171, SDG_1171_ACCESS],
+};
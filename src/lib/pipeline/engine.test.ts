@@ -0,0 +1,157 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { geodesicArea } from '@/lib/area';
+import { box, relative } from '@/lib/test-geometry';
+import {
+  checkDefinition,
+  evaluate,
+  evaluateQuantities,
+  spanValues,
+  totalQuantities,
+  type IndicatorDefinition,
+  type PipelineInput,
+} from './engine';
+
+const definition = (numerator: IndicatorDefinition['numerator'], denominator: IndicatorDefinition['denominator'], scale?: number): IndicatorDefinition => ({
+  indicator: 'x',
+  label: 'test',
+  time: ['year'],
+  quantities: { a: { join: 'builtup_mask_overlay', input: 'a' }, b: { join: 'admin_code', input: 'b' } },
+  numerator,
+  denominator,
+  scale,
+});
+
+describe('evaluate', () => {
+  const values = { a: [10, 40] as [number, number], b: [100, 200] as [number, number] };
+
+  it('divides values at t and t+n and applies the scale', () => {
+    const result = evaluate(definition({ op: 'value', quantity: 'a', at: 't+n' }, { op: 'value', quantity: 'b' }, 100), values, 2000, 2010);
+    expect(result).toEqual({ numerator: 40, denominator: 100, value: 40 });
+  });
+
+  it('evaluates changes and growth rates over the span', () => {
+    const result = evaluate(definition({ op: 'change', quantity: 'a' }, { op: 'growthRate', quantity: 'b' }), values, 2000, 2010);
+    expect(result.numerator).toBe(30);
+    expect(result.denominator).toBeCloseTo(Math.log(2) / 10, 12);
+    expect(result.value).toBeCloseTo(300 / Math.log(2), 9);
+  });
+
+  it('has no value when the denominator is zero or a quantity is missing', () => {
+    const flat = { a: [10, 40] as [number, number], b: [100, 100] as [number, number] };
+    expect(evaluate(definition({ op: 'value', quantity: 'a' }, { op: 'growthRate', quantity: 'b' }), flat, 2000, 2010).value).toBeNull();
+    const missing = evaluate(definition({ op: 'value', quantity: 'a' }, { op: 'value', quantity: 'b' }), { a: [1, 2] }, 2000, 2010);
+    expect(missing).toEqual({ numerator: 1, denominator: null, value: null });
+  });
+
+  it('has no growth rate from a zero or missing value', () => {
+    const result = evaluate(definition({ op: 'growthRate', quantity: 'a' }, { op: 'value', quantity: 'b' }), { a: [0, 40], b: [1, 1] }, 2000, 2010);
+    expect(result.numerator).toBeNull();
+    expect(evaluate(definition({ op: 'change', quantity: 'a' }, { op: 'value', quantity: 'b' }), { a: [null, 40], b: [1, 1] }, 2000, 2010).numerator).toBeNull();
+  });
+});
+
+describe('evaluateQuantities', () => {
+  const west = box(0, 0, 0.01, 0.01, { admin_code: 'W', name: 'West' });
+  const east = box(0.01, 0, 0.02, 0.01, { name: 'No code' });
+  const admin = turf.featureCollection([west, east]);
+
+  const builtUp = box(0, 0, 0.015, 0.01);
+  const park = box(0.004, 0, 0.012, 0.01);
+  const points = turf.featureCollection([
+    turf.point([0.002, 0.005], { people: 10 }),
+    turf.point([0.0085, 0.005], { people: 20 }),
+    turf.point([0.018, 0.005], { people: 30 }),
+  ]);
+  const inputs: Record<string, PipelineInput> = {
+    builtUp: { kind: 'mask', epochs: new Map([[2000, { geometry: builtUp }]]) },
+    park: { kind: 'mask', epochs: new Map([[2000, { geometry: park }], [2010, { geometry: null }]]) },
+    sites: { kind: 'features', epochs: new Map([[2000, turf.featureCollection([box(0.0005, 0.0045, 0.0015, 0.0055)])]]) },
+    points: { kind: 'features', epochs: new Map([[2000, points]]) },
+    population: { kind: 'table', rows: new Map([['W', { '2000': 100, '2010': 400 }]]) },
+  };
+  const spec: IndicatorDefinition = {
+    indicator: 'x',
+    label: 'test',
+    time: ['year'],
+    quantities: {
+      urb: { join: 'builtup_mask_overlay', input: 'builtUp' },
+      parkInUrb: { join: 'public_space_intersection', input: 'park', with: 'builtUp' },
+      pop: { join: 'admin_code', input: 'population' },
+      people: { join: 'grid_to_admin_overlay', input: 'points', property: 'people' },
+      count: { join: 'grid_to_admin_overlay', input: 'points' },
+      inPark: { join: 'grid_to_admin_overlay', input: 'points', with: 'park', property: 'people' },
+      nearSites: { join: 'network_buffer_to_population_grid', input: 'points', with: 'sites', distance_m: 300, property: 'people' },
+      missing: { join: 'builtup_mask_overlay', input: 'nothing' },
+    },
+    numerator: { op: 'value', quantity: 'parkInUrb' },
+    denominator: { op: 'value', quantity: 'urb' },
+  };
+  const years = [2000, 2005, 2010];
+  const [w, e] = evaluateQuantities(spec, admin, inputs, years);
+
+  it('names zones by their code and name, with a fallback code', () => {
+    expect([w.code, w.name, e.code, e.name]).toEqual(['W', 'West', 'unit-2', 'No code']);
+  });
+
+  it('overlays and clips masks per zone, using the latest epoch at or before each year', () => {
+    expect(relative(w.values.urb[0], geodesicArea(west))).toBeLessThan(1e-6);
+    expect(relative(e.values.urb[2], geodesicArea(box(0.01, 0, 0.015, 0.01)))).toBeLessThan(1e-6);
+    expect(relative(w.values.parkInUrb[0], geodesicArea(box(0.004, 0, 0.01, 0.01)))).toBeLessThan(1e-6);
+    expect(relative(e.values.parkInUrb[1], geodesicArea(box(0.01, 0, 0.012, 0.01)))).toBeLessThan(1e-6);
+    expect(w.values.parkInUrb[2]).toBe(0);
+  });
+
+  it('joins table rows by zone code and interpolates between observations', () => {
+    expect(w.values.pop[0]).toBe(100);
+    expect(w.values.pop[1]).toBeCloseTo(200, 9);
+    expect(e.values.pop).toEqual([null, null, null]);
+  });
+
+  it('sums or counts features by centroid, optionally inside a mask or a buffer', () => {
+    expect(w.values.people[0]).toBe(30);
+    expect(e.values.people[0]).toBe(30);
+    expect(w.values.count[0]).toBe(2);
+    expect(w.values.inPark[0]).toBe(20);
+    expect(e.values.inPark[0]).toBe(0);
+    expect(w.values.nearSites[0]).toBe(10);
+  });
+
+  it('gives no values for an unknown input', () => {
+    expect(w.values.missing).toEqual([null, null, null]);
+  });
+
+  it('totals zones only where every zone has a value, and evaluates a span', () => {
+    const total = totalQuantities([w, e]);
+    expect(total.values.pop).toEqual([null, null, null]);
+    expect(total.values.people[0]).toBe(60);
+    const share = evaluate(spec, spanValues(w, years, 2000, 2000), 2000, 2000).value!;
+    expect(share).toBeCloseTo(0.6, 6);
+  });
+});
+
+describe('checkDefinition', () => {
+  it('flags joins, quantities and time keys the crosswalk record does not declare', () => {
+    const def: IndicatorDefinition = {
+      ...definition({ op: 'value', quantity: 'a' }, { op: 'value', quantity: 'c' }),
+      quantities: {
+        a: { join: 'builtup_mask_overlay', input: 'a' },
+        b: { join: 'unknown_join', input: 'b' },
+        d: { join: 'parcel_id', input: 'd' },
+      },
+      time: ['year', 'month'],
+    };
+    expect(checkDefinition(def, { spatial: [], id: [], time: ['year'] })).toEqual([
+      'a: "builtup_mask_overlay" is not in joins.spatial',
+      'b: no step for "unknown_join"',
+      'd: "parcel_id" is not in joins.id',
+      'Unknown quantity "c"',
+      '"month" is not in joins.time',
+    ]);
+    expect(checkDefinition(definition({ op: 'value', quantity: 'a' }, { op: 'value', quantity: 'b' }), {
+      spatial: ['builtup_mask_overlay'],
+      id: [],
+      time: ['year'],
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,283 @@
+import type { FeatureCollection } from 'geojson';
+import { geodesicArea, type AreaMeasure } from '@/lib/area';
+import type { Joins } from '@/lib/crosswalk/schema';
+import {
+  buffer,
+  clip,
+  interpolateAt,
+  overlayArea,
+  zonalSum,
+  type AreaCollection,
+  type AreaFeature,
+  type Mask,
+} from './steps';
+
+/*
+ * Indicator pipeline. A crosswalk record names its spatial joins (joins.spatial), e.g.
+ * builtup_mask_overlay; each name maps to one reusable step. An indicator definition lists the
+ * quantities it measures per zone with those steps, and a numerator and denominator over them.
+ */
+
+export const STEP_KINDS = ['overlay', 'clip', 'buffer', 'zonal', 'table'] as const;
+
+export type StepKind = (typeof STEP_KINDS)[number];
+
+export const STEP_LABELS: Record<StepKind, string> = {
+  overlay: 'Overlay: area of a layer in each zone',
+  clip: 'Clip: area of a layer inside another layer, in each zone',
+  buffer: 'Buffer: area within a distance of features, in each zone',
+  zonal: 'Zonal aggregation: sum of a value over features in each zone',
+  table: 'Attribute join: value from a table keyed by the zone code',
+};
+
+// joins.spatial operations in the crosswalk and the step that computes them
+export const SPATIAL_OPERATIONS: Record<string, StepKind> = {
+  builtup_mask_overlay: 'overlay',
+  parcel_overlay: 'overlay',
+  parcel_or_field_overlay: 'overlay',
+  overlay_parcel_builtup: 'overlay',
+  land_cover_intersection: 'overlay',
+  EO_change_detection: 'overlay',
+  waterbody_to_admin_overlay: 'overlay',
+  basin_overlay: 'overlay',
+  basin_to_admin_overlay: 'overlay',
+  ecosystem_to_admin_overlay: 'overlay',
+  coverage_to_admin_overlay: 'overlay',
+  marine_area_to_admin_overlay: 'overlay',
+  forest_mask_to_admin_overlay: 'overlay',
+  forest_to_admin_overlay: 'overlay',
+  KBA_to_admin_overlay: 'overlay',
+  KBA_mountain_to_admin_overlay: 'overlay',
+  mountain_mask_to_admin_overlay: 'overlay',
+  degradation_layers_to_parcel_or_admin: 'overlay',
+  public_space_intersection: 'clip',
+  forest_to_protected_area_overlay: 'clip',
+  KBA_to_protected_area_overlay: 'clip',
+  KBA_mountain_to_protected_area_overlay: 'clip',
+  MPA_to_marine_area_overlay: 'clip',
+  buffer_to_admin_overlay: 'buffer',
+  buffer_to_parcel_optional: 'buffer',
+  buffer_to_parcel_or_grid: 'buffer',
+  grid_to_admin_overlay: 'zonal',
+  network_buffer_to_population_grid: 'zonal',
+  coverage_polygon_to_population_grid: 'zonal',
+  coastal_buffer_to_marine_grid: 'zonal',
+  asset_point_polygon_overlay: 'zonal',
+  monitor_to_waterbody: 'zonal',
+  station_to_admin_overlay_optional: 'zonal',
+  station_to_marine_area_overlay_optional: 'zonal',
+};
+
+export const ZONE_CODE_PROPERTY = 'admin_code';
+
+// Inputs by name. Layers and features are given per epoch; a table holds observations per zone
+// code and year.
+export type PipelineInput =
+  | { kind: 'mask'; epochs: Map<number, Mask> }
+  | { kind: 'features'; epochs: Map<number, FeatureCollection> }
+  | { kind: 'table'; rows: Map<string, Record<string, number>> };
+
+export type QuantitySpec = {
+  join: string; // a joins.spatial operation, or the id key of a table
+  input: string;
+  with?: string; // clip: the mask input to clip to; zonal: count only inside this mask
+  distance_m?: number; // buffer, zonal with `with`
+  property?: string; // zonal: the value to sum; features are counted without it
+};
+
+export type TimeKey = 't' | 't+n';
+
+export type Expression =
+  | { op: 'value'; quantity: string; at?: TimeKey } // the quantity at t (default) or t+n
+  | { op: 'change'; quantity: string } // q(t+n) − q(t)
+  | { op: 'growthRate'; quantity: string }; // ln(q(t+n) / q(t)) / n
+
+export type IndicatorDefinition = {
+  indicator: string;
+  label: string;
+  time: string[]; // the joins.time keys the definition reads
+  quantities: Record<string, QuantitySpec>;
+  numerator: Expression;
+  denominator: Expression;
+  scale?: number; // e.g. 100 for a percentage
+};
+
+export type ZoneOptions = {
+  codeProperty?: string;
+  nameProperty?: string;
+  area?: AreaMeasure;
+};
+
+export type ZoneQuantities = {
+  code: string;
+  name: string;
+  values: Record<string, (number | null)[]>; // one entry per year
+};
+
+// The step for a joins.spatial operation; id keys such as admin_code join a table
+export const stepFor = (join: string): StepKind | null =>
+  SPATIAL_OPERATIONS[join] ?? (join.endsWith('_code') || join.endsWith('_id') ? 'table' : null);
+
+// The input of the epoch `year`, or of the latest one before it (a static layer has one epoch)
+function atEpoch<T>(epochs: Map<number, T>, year: number): T | null {
+  const before = Array.from(epochs.keys()).filter(y => y <= year).sort((a, b) => b - a);
+  return before.length > 0 ? epochs.get(before[0])! : epochs.size === 1 ? epochs.values().next().value! : null;
+}
+
+function runStep(
+  spec: QuantitySpec,
+  inputs: Record<string, PipelineInput>,
+  zones: AreaFeature[],
+  codes: string[],
+  year: number,
+  area: AreaMeasure
+): (number | null)[] {
+  const kind = stepFor(spec.join);
+  const input = inputs[spec.input];
+  const none = zones.map(() => null);
+  if (!kind || !input) return none;
+
+  if (kind === 'table') {
+    if (input.kind !== 'table') return none;
+    return codes.map(code => {
+      const observations = input.rows.get(code);
+      return observations ? interpolateAt(observations, year) : null;
+    });
+  }
+
+  const other = spec.with ? inputs[spec.with] : undefined;
+  const otherMask = other?.kind === 'mask' ? atEpoch(other.epochs, year) : null;
+
+  if (kind === 'zonal') {
+    if (input.kind !== 'features') return none;
+    const features = atEpoch(input.epochs, year);
+    if (!features) return none;
+    let within: Mask | undefined;
+    if (other?.kind === 'features') {
+      const source = atEpoch(other.epochs, year);
+      within = source ? buffer(source, spec.distance_m ?? 0) : undefined;
+    } else if (otherMask) within = otherMask;
+    return zonalSum(features, zones, { property: spec.property, within });
+  }
+
+  if (kind === 'buffer') {
+    const features = input.kind === 'features' ? atEpoch(input.epochs, year) : null;
+    return features ? overlayArea(buffer(features, spec.distance_m ?? 0), zones, area) : none;
+  }
+
+  if (input.kind !== 'mask') return none;
+  const mask = atEpoch(input.epochs, year);
+  if (!mask) return none;
+  if (kind === 'clip') return otherMask ? overlayArea(clip(mask, otherMask), zones, area) : none;
+  return overlayArea(mask, zones, area);
+}
+
+// Every quantity of `definition` for every zone and year
+export function evaluateQuantities(
+  definition: IndicatorDefinition,
+  admin: AreaCollection,
+  inputs: Record<string, PipelineInput>,
+  years: number[],
+  { codeProperty = ZONE_CODE_PROPERTY, nameProperty = 'name', area = geodesicArea }: ZoneOptions = {}
+): ZoneQuantities[] {
+  const zones = admin.features;
+  const codes = zones.map((unit, i) => String(unit.properties?.[codeProperty] ?? unit.id ?? '') || `unit-${i + 1}`);
+  const measured = Object.fromEntries(
+    Object.entries(definition.quantities).map(([name, spec]) => {
+      const byYear = years.map(year => runStep(spec, inputs, zones, codes, year, area));
+      return [name, zones.map((_, z) => byYear.map(values => values[z]))];
+    })
+  );
+  return zones.map((unit, z) => ({
+    code: codes[z],
+    name: String(unit.properties?.[nameProperty] ?? codes[z]),
+    values: Object.fromEntries(Object.keys(measured).map(name => [name, measured[name][z]])),
+  }));
+}
+
+// Sum over zones; a year's value is only known when every zone has one
+export function totalQuantities(zones: ZoneQuantities[], code = 'total', name = 'All units'): ZoneQuantities {
+  const names = Object.keys(zones[0]?.values ?? {});
+  return {
+    code,
+    name,
+    values: Object.fromEntries(
+      names.map(q => [
+        q,
+        zones[0].values[q].map((_, i) =>
+          zones.every(z => z.values[q][i] !== null) ? zones.reduce((sum, z) => sum + z.values[q][i]!, 0) : null
+        ),
+      ])
+    ),
+  };
+}
+
+// Quantity values at t and t+n
+export type SpanValues = Record<string, [number | null, number | null]>;
+
+export type IndicatorValue = {
+  numerator: number | null;
+  denominator: number | null;
+  value: number | null;
+};
+
+function evaluateExpression(expression: Expression, values: SpanValues, years: number): number | null {
+  const [t, tn] = values[expression.quantity] ?? [null, null];
+  switch (expression.op) {
+    case 'value':
+      return expression.at === 't+n' ? tn : t;
+    case 'change':
+      return t !== null && tn !== null ? tn - t : null;
+    case 'growthRate':
+      return t !== null && tn !== null && t > 0 && tn > 0 ? Math.log(tn / t) / years : null;
+  }
+}
+
+export function evaluate(definition: IndicatorDefinition, values: SpanValues, from: number, to: number): IndicatorValue {
+  const years = Math.max(1, to - from);
+  const numerator = evaluateExpression(definition.numerator, values, years);
+  const denominator = evaluateExpression(definition.denominator, values, years);
+  const value =
+    numerator !== null && denominator !== null && denominator !== 0 ? (numerator / denominator) * (definition.scale ?? 1) : null;
+  return { numerator, denominator, value };
+}
+
+// The span [from, to] of one zone, as evaluate() takes it
+export function spanValues(zone: ZoneQuantities, years: number[], from: number, to: number): SpanValues {
+  const i = years.indexOf(from);
+  const j = years.indexOf(to);
+  return Object.fromEntries(Object.entries(zone.values).map(([q, v]) => [q, [v[i] ?? null, v[j] ?? null]]));
+}
+
+export function describeExpression(expression: Expression): string {
+  const q = expression.quantity;
+  switch (expression.op) {
+    case 'value':
+      return `${q}(${expression.at ?? 't'})`;
+    case 'change':
+      return `${q}(t+n) − ${q}(t)`;
+    case 'growthRate':
+      return `ln(${q}(t+n) / ${q}(t)) / n`;
+  }
+}
+
+// Mismatches between a definition and the joins of the crosswalk record it implements
+export function checkDefinition(definition: IndicatorDefinition, joins: Joins): string[] {
+  const issues: string[] = [];
+  Object.entries(definition.quantities).forEach(([name, spec]) => {
+    const kind = stepFor(spec.join);
+    if (!kind) issues.push(`${name}: no step for "${spec.join}"`);
+    else if (kind !== 'table' && !joins.spatial.includes(spec.join)) {
+      issues.push(`${name}: "${spec.join}" is not in joins.spatial`);
+    } else if (kind === 'table' && spec.join !== ZONE_CODE_PROPERTY && !joins.id.includes(spec.join)) {
+      issues.push(`${name}: "${spec.join}" is not in joins.id`);
+    }
+  });
+  [definition.numerator, definition.denominator].forEach(e => {
+    if (!definition.quantities[e.quantity]) issues.push(`Unknown quantity "${e.quantity}"`);
+  });
+  definition.time.forEach(key => {
+    if (!joins.time.includes(key)) issues.push(`"${key}" is not in joins.time`);
+  });
+  return issues;
+}
@@ -0,0 +1,85 @@
+import * as turf from '@turf/turf';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { geodesicArea, type AreaMeasure } from '@/lib/area';
+
+// Reusable geoprocessing steps. Each one measures something per zone (e.g. per admin unit), so
+// an indicator can be put together from them (see engine.ts).
+
+export type AreaFeature = Feature<Polygon | MultiPolygon>;
+export type AreaCollection = FeatureCollection<Polygon | MultiPolygon>;
+
+// A layer dissolved into one geometry, e.g. a built-up mask
+export type Mask = { geometry: AreaFeature | null };
+
+type Bbox = [number, number, number, number];
+
+const bboxOverlap = (a: Bbox, b: Bbox) => a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+
+// Polygons only; MultiPolygons are split into parts so overlaps inside one feature dissolve too
+export const polygonParts = (collection: FeatureCollection) =>
+  turf.flatten(collection as FeatureCollection<Polygon | MultiPolygon>).features.filter(
+    (f): f is Feature<Polygon> => f.geometry?.type === 'Polygon'
+  );
+
+export function dissolve(collection: FeatureCollection): AreaFeature | null {
+  const parts = polygonParts(collection);
+  return parts.length === 0 ? null : parts.length === 1 ? parts[0] : turf.union(turf.featureCollection(parts));
+}
+
+export function intersection(a: AreaFeature | null, b: AreaFeature | null): AreaFeature | null {
+  if (!a || !b || !bboxOverlap(turf.bbox(a) as Bbox, turf.bbox(b) as Bbox)) return null;
+  return turf.intersect(turf.featureCollection([a, b]));
+}
+
+// Clip: the part of `mask` inside `to`
+export const clip = (mask: Mask, to: Mask): Mask => ({ geometry: intersection(mask.geometry, to.geometry) });
+
+// Buffer: every feature grown by `distance_m`, dissolved
+export function buffer(collection: FeatureCollection, distance_m: number): Mask {
+  const grown = turf.buffer(collection, distance_m, { units: 'meters' }) as FeatureCollection | undefined;
+  return { geometry: grown ? dissolve(grown) : null };
+}
+
+// Overlay: area (m²) of the mask inside each zone
+export const overlayArea = (mask: Mask, zones: AreaFeature[], area: AreaMeasure = geodesicArea): number[] =>
+  zones.map(zone => {
+    const part = intersection(mask.geometry, zone);
+    return part ? area(part) : 0;
+  });
+
+// Zonal aggregation: sum of a numeric property over the features whose centroid falls in each zone
+// (and inside `within`, if given), e.g. a population grid to admin units. Without a property
+// features are counted.
+export function zonalSum(
+  features: FeatureCollection,
+  zones: AreaFeature[],
+  { property, within }: { property?: string; within?: Mask } = {}
+): number[] {
+  const points = features.features
+    .filter(f => f.geometry)
+    .map(f => ({
+      point: turf.centroid(f),
+      value: property === undefined ? 1 : Number(f.properties?.[property] ?? 0),
+    }))
+    .filter(p => Number.isFinite(p.value))
+    .filter(p => !within || (within.geometry !== null && turf.booleanPointInPolygon(p.point, within.geometry)));
+  return zones.map(zone => points.reduce((sum, p) => (turf.booleanPointInPolygon(p.point, zone) ? sum + p.value : sum), 0));
+}
+
+// Value in `year` from observations keyed by year: the observation itself, or log-linear
+// interpolation between the nearest ones (constant growth rate). No extrapolation.
+export function interpolateAt(observations: Record<string, number>, year: number): number | null {
+  const points = Object.entries(observations)
+    .map(([y, v]) => ({ year: Number(y), value: v }))
+    .filter(p => Number.isFinite(p.year) && p.value > 0)
+    .sort((a, b) => a.year - b.year);
+
+  const exact = points.find(p => p.year === year);
+  if (exact) return exact.value;
+
+  const after = points.findIndex(p => p.year > year);
+  if (after <= 0) return null;
+  const a = points[after - 1];
+  const b = points[after];
+  return a.value * Math.pow(b.value / a.value, (year - a.year) / (b.year - a.year));
+}
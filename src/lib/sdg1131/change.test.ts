@@ -0,0 +1,70 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { geodesicArea } from '@/lib/area';
+import { box, relative } from '@/lib/test-geometry';
+import { changeLayer, changeSummary, LEI_RING_M } from './change';
+import { dissolveBuiltUp, type AreaFeature } from './units';
+
+const years = { from: 2000, to: 2010 };
+const layer = (...parts: AreaFeature[]) => dissolveBuiltUp(turf.featureCollection(parts));
+
+// About 100 m at the equator, and a distance in degrees from metres
+const d = 0.0009;
+const metres = (m: number) => m / 111_320;
+
+// The new patch is [d, 2d] × [d, 2d]; `existing` is what was built up before
+function newPatch(...existing: AreaFeature[]) {
+  const patch = box(d, d, 2 * d, 2 * d);
+  const change = changeLayer(layer(...existing), layer(...existing, patch), years);
+  const added = change.features.filter(f => f.properties.change === 'new');
+  expect(added).toHaveLength(1);
+  return added[0].properties;
+}
+
+describe('changeLayer', () => {
+  it('splits built-up area into new, persistent and lost parts', () => {
+    const from = layer(box(0, 0, 2 * d, d));
+    const to = layer(box(d, 0, 3 * d, d));
+    const change = changeLayer(from, to, years);
+    const summary = changeSummary(change);
+    expect(relative(summary.new, geodesicArea(box(2 * d, 0, 3 * d, d)))).toBeLessThan(1e-6);
+    expect(relative(summary.persistent, geodesicArea(box(d, 0, 2 * d, d)))).toBeLessThan(1e-6);
+    expect(relative(summary.lost, geodesicArea(box(0, 0, d, d)))).toBeLessThan(1e-6);
+    expect(change.features.every(f => f.properties.from === 2000 && f.properties.to === 2010)).toBe(true);
+    expect(change.features.filter(f => f.properties.change !== 'new').every(f => f.properties.lei === null)).toBe(true);
+  });
+
+  it('gives every part its share of the class total', () => {
+    const change = changeLayer(layer(box(0, 0, d, d)), layer(box(0, 0, d, d), box(2 * d, 0, 3 * d, d), box(4 * d, 0, 6 * d, d)), years);
+    const shares = change.features.filter(f => f.properties.change === 'new').map(f => f.properties.share);
+    expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9);
+    expect(shares.sort()).toEqual([expect.closeTo(1 / 3, 3), expect.closeTo(2 / 3, 3)]);
+  });
+});
+
+describe('landscape expansion index', () => {
+  it('is infill when most of the ring around a patch was built up', () => {
+    const uShape = [box(0, 0, d, 3 * d), box(2 * d, 0, 3 * d, 3 * d), box(d, 0, 2 * d, d)];
+    const patch = newPatch(...uShape);
+    expect(patch.lei).toBeGreaterThanOrEqual(50);
+    expect(patch.expansion).toBe('infill');
+  });
+
+  it('is extension for a patch built onto one side', () => {
+    const patch = newPatch(box(0, 0, d, 3 * d));
+    expect(patch.lei).toBeGreaterThan(20);
+    expect(patch.lei).toBeLessThan(50);
+    expect(patch.expansion).toBe('extension');
+  });
+
+  it(`still counts built-up area less than LEI_RING_M (${LEI_RING_M} m) away`, () => {
+    const patch = newPatch(box(0, 0, d - metres(LEI_RING_M / 2), 3 * d));
+    expect(patch.lei).toBeGreaterThan(0);
+    expect(patch.expansion).toBe('extension');
+  });
+
+  it('is leapfrog for a patch further than LEI_RING_M from anything built up', () => {
+    expect(newPatch(box(0, 0, d - metres(2 * LEI_RING_M), 3 * d))).toMatchObject({ lei: 0, expansion: 'leapfrog' });
+    expect(newPatch()).toMatchObject({ lei: 0, expansion: 'leapfrog' });
+  });
+});
@@ -0,0 +1,108 @@
+import * as turf from '@turf/turf';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { geodesicArea, type AreaMeasure } from '@/lib/area';
+import type { AreaFeature, BuiltUpLayer } from './units';
+
+export type ChangeClass = 'new' | 'persistent' | 'lost';
+
+export const CHANGE_CLASSES: { key: ChangeClass; label: string; color: string }[] = [
+  { key: 'new', label: 'Newly built-up', color: '#dc2626' },
+  { key: 'persistent', label: 'Persistent', color: '#6b7280' },
+  { key: 'lost', label: 'Lost', color: '#16a34a' },
+];
+
+export type ExpansionClass = 'infill' | 'extension' | 'leapfrog';
+
+export const EXPANSION_CLASSES: { key: ExpansionClass; label: string; color: string }[] = [
+  { key: 'infill', label: 'Infill', color: '#f59e0b' },
+  { key: 'extension', label: 'Extension', color: '#ef4444' },
+  { key: 'leapfrog', label: 'Leapfrog', color: '#7c3aed' },
+];
+
+export type ChangeProperties = {
+  change: ChangeClass;
+  from: number;
+  to: number;
+  area_m2: number;
+  share: number; // of the class total, e.g. of all new built-up area
+  expansion: ExpansionClass | null; // new polygons only
+  lei: number | null;
+};
+
+export type ChangeCollection = FeatureCollection<Polygon, ChangeProperties>;
+
+// null when the operation leaves nothing
+function overlay(kind: 'difference' | 'intersect', a: AreaFeature | null, b: AreaFeature | null): AreaFeature | null {
+  if (!a) return null;
+  if (!b) return kind === 'difference' ? a : null;
+  const pair = turf.featureCollection([a, b]);
+  return kind === 'difference' ? turf.difference(pair) : turf.intersect(pair);
+}
+
+// Width of the ring around a new patch used by the landscape expansion index
+export const LEI_RING_M = 1;
+
+// Landscape expansion index (Liu et al. 2010): % of a ring around the new patch that was
+// already built up. ≥ 50 is infill, above 0 extension (edge expansion), 0 leapfrog (outlying).
+function expansionIndex(patch: Feature<Polygon>, existing: AreaFeature | null): number {
+  if (!existing) return 0;
+  const buffered = turf.buffer(patch, LEI_RING_M, { units: 'meters' }) as AreaFeature | undefined;
+  const ring = overlay('difference', buffered ?? null, patch);
+  if (!ring) return 0;
+  const built = overlay('intersect', ring, existing);
+  return built ? (100 * turf.area(built)) / turf.area(ring) : 0;
+}
+
+const expansionClass = (lei: number): ExpansionClass => (lei >= 50 ? 'infill' : lei > 0 ? 'extension' : 'leapfrog');
+
+// Splits built-up area into new (to − from), persistent (from ∩ to) and lost (from − to).
+// Each polygon part becomes its own feature so it can be inspected on the map.
+export function changeLayer(
+  from: BuiltUpLayer,
+  to: BuiltUpLayer,
+  years: { from: number; to: number },
+  area: AreaMeasure = geodesicArea
+): ChangeCollection {
+  const parts: Record<ChangeClass, AreaFeature | null> = {
+    new: overlay('difference', to.geometry, from.geometry),
+    persistent: overlay('intersect', from.geometry, to.geometry),
+    lost: overlay('difference', from.geometry, to.geometry),
+  };
+
+  const features = CHANGE_CLASSES.flatMap(({ key }) => {
+    const geometry = parts[key];
+    if (!geometry) return [];
+    const polygons = turf.flatten(geometry as Feature<Polygon | MultiPolygon>).features;
+    const areas = polygons.map(p => area(p));
+    const total = areas.reduce((sum, a) => sum + a, 0);
+    return polygons.map((p, i): Feature<Polygon, ChangeProperties> => {
+      const lei = key === 'new' ? expansionIndex(p, from.geometry) : null;
+      return {
+        type: 'Feature',
+        id: `${key}-${i + 1}`,
+        geometry: p.geometry,
+        properties: {
+          change: key,
+          from: years.from,
+          to: years.to,
+          area_m2: areas[i],
+          share: total > 0 ? areas[i] / total : 0,
+          expansion: lei === null ? null : expansionClass(lei),
+          lei,
+        },
+      };
+    });
+  });
+  return turf.featureCollection(features) as ChangeCollection;
+}
+
+export type ChangeSummary = Record<ChangeClass, number> & { expansion: Record<ExpansionClass, number> }; // m²
+
+export function changeSummary(change: ChangeCollection): ChangeSummary {
+  const summary: ChangeSummary = { new: 0, persistent: 0, lost: 0, expansion: { infill: 0, extension: 0, leapfrog: 0 } };
+  change.features.forEach(({ properties: p }) => {
+    summary[p.change] += p.area_m2;
+    if (p.expansion) summary.expansion[p.expansion] += p.area_m2;
+  });
+  return summary;
+}
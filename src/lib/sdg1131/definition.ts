@@ -0,0 +1,15 @@
+import type { IndicatorDefinition } from '@/lib/pipeline/engine';
+
+// SDG 11.3.1 as a pipeline definition: LCR over PGR. Built-up area comes from the
+// builtup_mask_overlay join of the crosswalk record, population from a table keyed by admin_code.
+export const SDG_1131: IndicatorDefinition = {
+  indicator: '11.3.1',
+  label: 'Ratio of land consumption rate to population growth rate',
+  time: ['t', 't+n'],
+  quantities: {
+    urb: { join: 'builtup_mask_overlay', input: 'builtUp' },
+    pop: { join: 'admin_code', input: 'population' },
+  },
+  numerator: { op: 'growthRate', quantity: 'urb' }, // LCR
+  denominator: { op: 'growthRate', quantity: 'pop' }, // PGR
+};
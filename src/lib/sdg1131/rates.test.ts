@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { computeRates, interpretRatio } from './rates';
+
+const pop = (population_t: number, population_tn: number, t = 2000, t_n = 2010) => ({ t, t_n, population_t, population_tn });
+
+describe('computeRates', () => {
+  it('computes LCR, PGR and their ratio over the span', () => {
+    const stats = computeRates(100, 200, pop(1000, 1500));
+    expect(stats.years).toBe(10);
+    expect(stats.lcr).toBeCloseTo(Math.log(2) / 10, 12);
+    expect(stats.pgr).toBeCloseTo(Math.log(1.5) / 10, 12);
+    expect(stats.ratio).toBeCloseTo(Math.log(2) / Math.log(1.5), 12);
+    expect(stats.area_change_m2).toBe(100);
+    expect(stats.population_change).toBe(500);
+    expect(stats.per_capita_t_m2).toBeCloseTo(0.1, 12);
+    expect(stats.per_capita_tn_m2).toBeCloseTo(200 / 1500, 12);
+  });
+
+  it('leaves the ratio empty when population did not change', () => {
+    const stats = computeRates(100, 200, pop(1000, 1000));
+    expect(stats.pgr).toBe(0);
+    expect(stats.ratio).toBeNull();
+    expect(stats.lcr).not.toBeNull();
+  });
+
+  it('has no LCR when there was no built-up area at t', () => {
+    const stats = computeRates(0, 200, pop(1000, 1500));
+    expect(stats.lcr).toBeNull();
+    expect(stats.ratio).toBeNull();
+    expect(stats.per_capita_t_m2).toBe(0);
+    expect(stats.area_change_m2).toBe(200);
+  });
+
+  it('has no PGR or per-capita figures when population is missing', () => {
+    const stats = computeRates(100, 200, pop(0, 1500));
+    expect(stats.pgr).toBeNull();
+    expect(stats.ratio).toBeNull();
+    expect(stats.population_change).toBeNull();
+    expect(stats.per_capita_t_m2).toBeNull();
+    expect(stats.per_capita_change_m2).toBeNull();
+    expect(stats.per_capita_tn_m2).toBeCloseTo(200 / 1500, 12);
+  });
+
+  it('counts a span of less than a year as one year', () => {
+    expect(computeRates(100, 200, pop(1000, 1500, 2010, 2010)).years).toBe(1);
+  });
+});
+
+describe('interpretRatio', () => {
+  it('has no reading without a ratio', () => {
+    expect(interpretRatio({ lcr: 0.01, pgr: 0, ratio: null }).key).toBe('none');
+    expect(interpretRatio({ lcr: null, pgr: 0.01, ratio: null }).key).toBe('none');
+  });
+
+  it('reads both rates falling as declining, even though the ratio is positive', () => {
+    expect(interpretRatio({ lcr: -0.02, pgr: -0.01, ratio: 2 }).key).toBe('declining');
+  });
+
+  it('reads built-up growth with falling population', () => {
+    expect(interpretRatio({ lcr: 0.02, pgr: -0.01, ratio: -2 }).key).toBe('growth-no-people');
+    expect(interpretRatio({ lcr: 0, pgr: -0.01, ratio: 0 }).key).toBe('growth-no-people');
+  });
+
+  it('reads shrinking built-up with growing population', () => {
+    expect(interpretRatio({ lcr: -0.01, pgr: 0.02, ratio: -0.5 }).key).toBe('shrinking-built-up');
+  });
+
+  it('splits growth of both at a ratio of 1', () => {
+    expect(interpretRatio({ lcr: 0.03, pgr: 0.01, ratio: 3 }).key).toBe('sprawling');
+    expect(interpretRatio({ lcr: 0.01, pgr: 0.01, ratio: 1 }).key).toBe('densifying');
+    expect(interpretRatio({ lcr: 0.005, pgr: 0.01, ratio: 0.5 }).key).toBe('densifying');
+  });
+});
@@ -0,0 +1,79 @@
+import { evaluate } from '@/lib/pipeline/engine';
+import { SDG_1131 } from './definition';
+
+// SDG 11.3.1: ratio of land consumption rate to population growth rate
+
+export type PopPayload = {
+  t: number;
+  t_n: number;
+  population_t: number;
+  population_tn: number;
+};
+
+export type AreaStats = {
+  area_t_m2: number;
+  area_tn_m2: number;
+  years: number;
+  lcr: number | null;
+  pgr: number | null;
+  ratio: number | null; // LCR / PGR
+  // Companion metrics from the UN-Habitat metadata
+  area_change_m2: number;
+  population_change: number | null;
+  per_capita_t_m2: number | null; // built-up area per person
+  per_capita_tn_m2: number | null;
+  per_capita_change_m2: number | null;
+};
+
+// LCR = ln(Urb_t+n / Urb_t) / n, PGR = ln(Pop_t+n / Pop_t) / n, evaluated from the definition
+export function computeRates(areaT: number, areaTN: number, pop: PopPayload): AreaStats {
+  const years = Math.max(1, pop.t_n - pop.t);
+  const { numerator: lcr, denominator: pgr, value: ratio } = evaluate(
+    SDG_1131,
+    { urb: [areaT, areaTN], pop: [pop.population_t, pop.population_tn] },
+    pop.t,
+    pop.t_n
+  );
+
+  const perCapitaT = pop.population_t > 0 ? areaT / pop.population_t : null;
+  const perCapitaTN = pop.population_tn > 0 ? areaTN / pop.population_tn : null;
+  return {
+    area_t_m2: areaT,
+    area_tn_m2: areaTN,
+    years,
+    lcr,
+    pgr,
+    ratio,
+    area_change_m2: areaTN - areaT,
+    population_change: pop.population_t > 0 && pop.population_tn > 0 ? pop.population_tn - pop.population_t : null,
+    per_capita_t_m2: perCapitaT,
+    per_capita_tn_m2: perCapitaTN,
+    per_capita_change_m2: perCapitaT !== null && perCapitaTN !== null ? perCapitaTN - perCapitaT : null,
+  };
+}
+
+export type RatioBand = {
+  key: 'none' | 'densifying' | 'sprawling' | 'growth-no-people' | 'shrinking-built-up' | 'declining';
+  label: string;
+  description: string;
+};
+
+// Reading of LCR / PGR. The sign of each rate matters: a positive ratio can also mean both are falling.
+export function interpretRatio({ lcr, pgr, ratio }: Pick<AreaStats, 'lcr' | 'pgr' | 'ratio'>): RatioBand {
+  if (ratio === null || lcr === null || pgr === null) {
+    return { key: 'none', label: 'No ratio', description: 'Population or built-up area is missing, or population did not change.' };
+  }
+  if (lcr < 0 && pgr < 0) {
+    return { key: 'declining', label: 'Both declining', description: 'Built-up area and population both shrink.' };
+  }
+  if (lcr >= 0 && pgr < 0) {
+    return { key: 'growth-no-people', label: 'Built-up grows, population falls', description: 'Land is consumed while population declines.' };
+  }
+  if (lcr < 0) {
+    return { key: 'shrinking-built-up', label: 'Built-up shrinks, population grows', description: 'Population grows on less built-up land.' };
+  }
+  if (ratio > 1) {
+    return { key: 'sprawling', label: 'Land consumption outpaces population growth', description: 'Ratio > 1: built-up area per person increases (less dense).' };
+  }
+  return { key: 'densifying', label: 'Population growth outpaces land consumption', description: 'Ratio ≤ 1: built-up area per person stays equal or decreases (denser).' };
+}
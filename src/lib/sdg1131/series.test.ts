@@ -0,0 +1,77 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { geodesicArea } from '@/lib/area';
+import { box, relative } from '@/lib/test-geometry';
+import { buildUnitSeries, populationAt, spanStats, totalSeries } from './series';
+import { dissolveBuiltUp, type AreaCollection } from './units';
+
+describe('populationAt', () => {
+  const observations = { '2000': 1000, '2020': 4000 };
+
+  it('returns an observed year as is', () => {
+    expect(populationAt(observations, 2000)).toBe(1000);
+  });
+
+  it('interpolates log-linearly between observations', () => {
+    expect(populationAt(observations, 2010)).toBeCloseTo(2000, 9);
+    expect(populationAt(observations, 2005)).toBeCloseTo(1000 * Math.SQRT2, 9);
+  });
+
+  it('does not extrapolate', () => {
+    expect(populationAt(observations, 1995)).toBeNull();
+    expect(populationAt(observations, 2025)).toBeNull();
+    expect(populationAt({}, 2000)).toBeNull();
+  });
+
+  it('ignores non-positive values and keys that are not years', () => {
+    expect(populationAt({ '2000': 0, '2010': 500, note: 3 }, 2005)).toBeNull();
+    expect(populationAt({ '2000': 0, '2010': 500 }, 2010)).toBe(500);
+  });
+});
+
+describe('buildUnitSeries', () => {
+  const unitA = box(0, 0, 0.01, 0.01, { admin_code: 'A', name: 'Unit A' });
+  const unitB = box(0.01, 0, 0.02, 0.01, { admin_code: 'B', name: 'Unit B' });
+  const admin: AreaCollection = turf.featureCollection([unitA, unitB]);
+
+  const westHalfOfA = box(0, 0, 0.005, 0.01);
+  const epochs = [
+    // Out of order on purpose; A fully built up and half of B in 2010
+    { year: 2010, layer: dissolveBuiltUp(turf.featureCollection([box(0, 0, 0.015, 0.01)])) },
+    { year: 2000, layer: dissolveBuiltUp(turf.featureCollection([westHalfOfA, box(0.001, 0.001, 0.002, 0.002)])) },
+  ];
+  const populations = { units: [{ admin_code: 'A', population: { '1990': 100, '2020': 800 } }] };
+
+  const [a, b] = buildUnitSeries(admin, epochs, populations);
+
+  it('sorts epochs and keeps one entry per unit', () => {
+    expect(a.years).toEqual([2000, 2010]);
+    expect([a.code, a.name, b.code]).toEqual(['A', 'Unit A', 'B']);
+  });
+
+  it('measures the built-up area inside each unit, counting overlaps once', () => {
+    expect(relative(a.areas[0], geodesicArea(westHalfOfA))).toBeLessThan(1e-6);
+    expect(relative(a.areas[1], geodesicArea(unitA))).toBeLessThan(1e-6);
+    expect(b.areas[0]).toBe(0);
+    expect(relative(b.areas[1], geodesicArea(box(0.01, 0, 0.015, 0.01)))).toBeLessThan(1e-6);
+  });
+
+  it('interpolates population at the epochs and leaves units without a table row empty', () => {
+    expect(a.population[0]).toBeCloseTo(100 * Math.pow(8, 1 / 3), 6);
+    expect(a.population[1]).toBeCloseTo(100 * Math.pow(8, 2 / 3), 6);
+    expect(b.population).toEqual([null, null]);
+  });
+
+  it('totals population only for years every unit has', () => {
+    const total = totalSeries([a, b]);
+    expect(total.population).toEqual([null, null]);
+    expect(total.areas[1]).toBeCloseTo(a.areas[1] + b.areas[1], 6);
+  });
+
+  it('gives LCR and PGR for a span of the series', () => {
+    const stats = spanStats(a, 2000, 2010)!;
+    expect(stats.lcr).toBeCloseTo(Math.log(a.areas[1] / a.areas[0]) / 10, 9);
+    expect(stats.pgr).toBeCloseTo(Math.log(2) / 10, 9);
+    expect(spanStats(a, 2010, 2000)).toBeNull();
+  });
+});
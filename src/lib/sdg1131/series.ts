@@ -0,0 +1,101 @@
+import { evaluateQuantities } from '@/lib/pipeline/engine';
+import { interpolateAt } from '@/lib/pipeline/steps';
+import { SDG_1131 } from './definition';
+import { computeRates, type AreaStats } from './rates';
+import { type AreaCollection, type BuiltUpLayer, type UnitOptions, type UnitResult } from './units';
+
+// built_up_epochs.json: one built-up layer per year
+export type EpochManifest = { epochs: { year: number; file: string }[] };
+
+export type Epoch = { year: number; layer: BuiltUpLayer };
+
+// populations.json: observations per unit, keyed by year. Years need not match the built-up epochs.
+export type PopulationObservations = {
+  units: { admin_code: string; population: Record<string, number> }[];
+};
+
+// Built-up area and population of one unit (or of all units) at every epoch
+export type UnitSeries = {
+  code: string;
+  name: string;
+  years: number[];
+  areas: number[]; // m²
+  population: (number | null)[];
+};
+
+export type PeriodStats = AreaStats & { from: number; to: number };
+
+// Population in `year`: the observation itself, or log-linear interpolation between the nearest
+// observations (constant growth rate, the same assumption PGR makes). No extrapolation.
+export const populationAt = interpolateAt;
+
+// The quantities of the 11.3.1 definition (built-up area, population) for every unit and epoch
+export function buildUnitSeries(
+  admin: AreaCollection,
+  epochs: Epoch[],
+  populations: PopulationObservations,
+  options: UnitOptions = {}
+): UnitSeries[] {
+  const sorted = [...epochs].sort((a, b) => a.year - b.year);
+  const years = sorted.map(e => e.year);
+  const inputs = {
+    builtUp: { kind: 'mask' as const, epochs: new Map(sorted.map(e => [e.year, e.layer])) },
+    population: { kind: 'table' as const, rows: new Map(populations.units.map(u => [String(u.admin_code), u.population])) },
+  };
+
+  return evaluateQuantities(SDG_1131, admin, inputs, years, options).map(({ code, name, values }) => ({
+    code,
+    name,
+    years,
+    areas: values.urb.map(v => v ?? 0),
+    population: values.pop,
+  }));
+}
+
+// Sum over all units; a year's population is only known when every unit has one
+export function totalSeries(units: UnitSeries[]): UnitSeries {
+  const years = units[0]?.years ?? [];
+  return {
+    code: 'total',
+    name: 'All units',
+    years,
+    areas: years.map((_, i) => units.reduce((sum, u) => sum + u.areas[i], 0)),
+    population: years.map((_, i) =>
+      units.every(u => u.population[i] !== null) ? units.reduce((sum, u) => sum + u.population[i]!, 0) : null
+    ),
+  };
+}
+
+// LCR, PGR and their ratio between two epochs of a series
+export function spanStats(series: UnitSeries, from: number, to: number): PeriodStats | null {
+  const i = series.years.indexOf(from);
+  const j = series.years.indexOf(to);
+  if (i < 0 || j < 0 || j <= i) return null;
+  const stats = computeRates(series.areas[i], series.areas[j], {
+    t: from,
+    t_n: to,
+    population_t: series.population[i] ?? 0,
+    population_tn: series.population[j] ?? 0,
+  });
+  return { ...stats, from, to };
+}
+
+// One entry per consecutive pair of epochs
+export function periodSeries(series: UnitSeries): PeriodStats[] {
+  return series.years.slice(1).map((to, i) => spanStats(series, series.years[i], to)!);
+}
+
+// Table rows for a span, one per unit
+export function spanResults(units: UnitSeries[], from: number, to: number): UnitResult[] {
+  return units.flatMap(u => {
+    const stats = spanStats(u, from, to);
+    if (!stats) return [];
+    return [{
+      ...stats,
+      code: u.code,
+      name: u.name,
+      population_t: u.population[u.years.indexOf(from)],
+      population_tn: u.population[u.years.indexOf(to)],
+    }];
+  });
+}
@@ -0,0 +1,90 @@
+import * as turf from '@turf/turf';
+import { geodesicArea, type AreaMeasure } from '@/lib/area';
+import { ZONE_CODE_PROPERTY } from '@/lib/pipeline/engine';
+import { intersection, overlayArea, polygonParts, type AreaCollection, type AreaFeature } from '@/lib/pipeline/steps';
+import type { AreaStats } from './rates';
+
+export type { AreaCollection, AreaFeature };
+
+export type UnitResult = AreaStats & {
+  code: string;
+  name: string;
+  population_t: number | null;
+  population_tn: number | null;
+};
+
+export type UnitOptions = {
+  codeProperty?: string;
+  nameProperty?: string;
+  area?: AreaMeasure;
+};
+
+export const DEFAULT_CODE_PROPERTY = ZONE_CODE_PROPERTY;
+
+// A built-up layer dissolved into one (Multi)Polygon, so overlapping features are counted once
+export type BuiltUpLayer = {
+  geometry: AreaFeature | null;
+  raw_m2: number; // sum of the input feature areas
+  dissolved_m2: number;
+};
+
+// Non-area features are ignored; MultiPolygons are split into parts so overlaps inside one
+// feature dissolve too. Holes are kept.
+export function dissolveBuiltUp(builtUp: AreaCollection, area: AreaMeasure = geodesicArea): BuiltUpLayer {
+  const parts = polygonParts(builtUp);
+  const raw_m2 = parts.reduce((sum, f) => sum + area(f), 0);
+  const geometry: AreaFeature | null =
+    parts.length === 0 ? null : parts.length === 1 ? parts[0] : turf.union(turf.featureCollection(parts));
+  return { geometry, raw_m2, dissolved_m2: geometry ? area(geometry) : 0 };
+}
+
+// Built-up area (m²) of a dissolved layer inside `unit`
+export const clippedArea = (layer: BuiltUpLayer, unit: AreaFeature, area: AreaMeasure = geodesicArea): number =>
+  overlayArea(layer, [unit], area)[0];
+
+// Data-quality figures for one epoch: how much built-up area was counted twice in the input
+// and how much lies outside every admin unit (and so is left out of the indicator)
+export type BoundaryDiagnostic = {
+  raw_m2: number;
+  dissolved_m2: number;
+  overlap_m2: number;
+  inside_m2: number;
+  outside_m2: number;
+  outside: AreaFeature | null;
+};
+
+export function boundaryDiagnostic(
+  layer: BuiltUpLayer,
+  admin: AreaCollection,
+  area: AreaMeasure = geodesicArea
+): BoundaryDiagnostic {
+  const units = admin.features.filter(f => f.geometry);
+  const boundary: AreaFeature | null =
+    units.length === 0 ? null : units.length === 1 ? units[0] : turf.union(turf.featureCollection(units));
+  const inside = intersection(layer.geometry, boundary);
+  const outside =
+    layer.geometry && boundary ? turf.difference(turf.featureCollection([layer.geometry, boundary])) : layer.geometry;
+  const inside_m2 = inside ? area(inside) : 0;
+  return {
+    raw_m2: layer.raw_m2,
+    dissolved_m2: layer.dissolved_m2,
+    overlap_m2: Math.max(0, layer.raw_m2 - layer.dissolved_m2),
+    inside_m2,
+    outside_m2: Math.max(0, layer.dissolved_m2 - inside_m2),
+    outside,
+  };
+}
+
+export const unitCode = (unit: AreaFeature, codeProperty = DEFAULT_CODE_PROPERTY) =>
+  String(unit.properties?.[codeProperty] ?? unit.id ?? '');
+
+// Admin units with their results as properties, for a data-driven choropleth
+export function unitsWithResults(admin: AreaCollection, units: UnitResult[]): AreaCollection {
+  return {
+    ...admin,
+    features: admin.features.map((feature, i) => ({
+      ...feature,
+      properties: { ...feature.properties, ...units[i] },
+    })),
+  };
+}
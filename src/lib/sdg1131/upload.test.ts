@@ -0,0 +1,96 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { box } from '@/lib/test-geometry';
+import { parseAreaCollection, parsePopulationTable, yearFromFileName } from './upload';
+
+const collection = (...geometries: unknown[]) =>
+  JSON.stringify({ type: 'FeatureCollection', features: geometries.map(geometry => ({ type: 'Feature', properties: {}, geometry })) });
+
+const unit = box(0, 0, 1, 1).geometry;
+const messages = (text: string, role: 'admin' | 'built-up' = 'admin') =>
+  parseAreaCollection(text, 'units.geojson', role).issues.map(i => `${i.level}: ${i.message}`);
+
+describe('parseAreaCollection', () => {
+  it('accepts polygons and multipolygons', () => {
+    const multi = { type: 'MultiPolygon', coordinates: [box(2, 2, 3, 3).geometry.coordinates] };
+    const parsed = parseAreaCollection(collection(unit, multi), 'units.geojson', 'admin');
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.value?.features).toHaveLength(2);
+  });
+
+  it('rejects files that are not a FeatureCollection', () => {
+    expect(messages('{')[0]).toMatch(/^error: Not valid JSON/);
+    expect(messages(JSON.stringify(unit))).toEqual(['error: Expected a GeoJSON FeatureCollection']);
+    expect(messages(collection())).toEqual(['error: Contains no features']);
+  });
+
+  it('reports malformed geometries and leaves them out', () => {
+    const text = collection(
+      unit,
+      { type: 'Polygon' },
+      { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] },
+      { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] },
+      { type: 'MultiPolygon', coordinates: [[0, 0]] },
+      { type: 'Circle', coordinates: [0, 0] }
+    );
+    const parsed = parseAreaCollection(text, 'units.geojson', 'admin');
+    expect(parsed.value?.features).toHaveLength(1);
+    expect(parsed.issues).toHaveLength(1);
+    expect(parsed.issues[0].level).toBe('error');
+    expect(parsed.issues[0].message).toBe(
+      '5 feature(s) with malformed geometry, e.g. feature 2: Polygon without "coordinates"; ' +
+        'feature 3: a ring has 3 position(s); at least 4 are needed; ' +
+        'feature 4: a ring is not closed (first and last positions differ)'
+    );
+  });
+
+  it('names malformed multipolygons and unknown types', () => {
+    expect(messages(collection({ type: 'MultiPolygon', coordinates: [[0, 0]] }))[0]).toContain('feature 1: a ring is not an array of [x, y] positions');
+    expect(messages(collection({ type: 'MultiPolygon', coordinates: [5] }))[0]).toContain('a polygon is not an array of rings');
+    expect(messages(collection({ type: 'Circle', coordinates: [0, 0] }))[0]).toContain('unknown geometry type "Circle"');
+  });
+
+  it('refuses other geometry types in admin units and skips them in built-up layers', () => {
+    const text = collection(unit, turf.point([0.5, 0.5]).geometry, null);
+    expect(messages(text)).toEqual([
+      'error: 1 feature(s) with Point geometry; only Polygon and MultiPolygon are allowed',
+      'error: 1 feature(s) with null geometry; only Polygon and MultiPolygon are allowed',
+    ]);
+    const builtUp = parseAreaCollection(text, 'built_up_2020.geojson', 'built-up');
+    expect(builtUp.issues.map(i => i.level)).toEqual(['warning', 'warning']);
+    expect(builtUp.value?.features).toHaveLength(1);
+  });
+
+  it('flags projected coordinates and non-WGS84 CRS declarations', () => {
+    expect(messages(collection(box(500000, 4000000, 501000, 4001000).geometry))[0]).toMatch(/outside longitude\/latitude range.*looks projected/);
+    const declared = JSON.stringify({ ...JSON.parse(collection(unit)), crs: { type: 'name', properties: { name: 'EPSG:32633' } } });
+    expect(messages(declared)[0]).toContain('Declares CRS EPSG:32633');
+  });
+});
+
+describe('parsePopulationTable', () => {
+  const observations = (text: string, file: string) => parsePopulationTable(text, file).value?.units;
+
+  it('reads long and wide CSV layouts alike', () => {
+    const expected = [{ admin_code: 'A', population: { '2000': 100, '2010': 1200 } }];
+    expect(observations('admin_code,year,population\nA,2000,100\nA,2010,"1 200"\n', 'pop.csv')).toEqual(expected);
+    expect(observations('admin_code,2000,2010\nA,100,1200\n', 'pop.csv')).toEqual(expected);
+  });
+
+  it('reports values that are not populations or years', () => {
+    const { issues } = parsePopulationTable('{"units":[{"admin_code":"A","population":{"2000":-1,"later":5}}]}', 'pop.json');
+    expect(issues.map(i => i.message)).toEqual([
+      'units[0]: population "-1" is not a non-negative number',
+      'units[0]: year "later" is not a four-digit year',
+    ]);
+  });
+});
+
+describe('yearFromFileName', () => {
+  it('takes the first four-digit year in the name', () => {
+    expect(yearFromFileName('built_up_2015_v2.geojson')).toBe(2015);
+    expect(yearFromFileName('ghs_1990-2000.geojson')).toBe(1990);
+    expect(yearFromFileName('built_up_t.geojson')).toBeNull();
+    expect(yearFromFileName('tile_120155.geojson')).toBeNull();
+  });
+});
@@ -0,0 +1,262 @@
+import * as turf from '@turf/turf';
+import type { Geometry, Position } from 'geojson';
+import { parseCsv } from '@/lib/crosswalk/tabular';
+import { DEFAULT_CODE_PROPERTY, unitCode, type AreaCollection } from './units';
+import { populationAt, type PopulationObservations } from './series';
+
+// Everything the 11.3.1 analysis needs, from the sample files or from uploads
+export type AnalysisInput = {
+  admin: AreaCollection;
+  epochs: { year: number; builtUp: AreaCollection }[];
+  populations: PopulationObservations;
+};
+
+export type UploadIssue = {
+  level: 'error' | 'warning';
+  file: string;
+  message: string;
+};
+
+export type Parsed<T> = { value: T | null; issues: UploadIssue[] };
+
+// GeoJSON is WGS84 lon/lat (RFC 7946); older files may still declare it with a `crs` member
+const WGS84_NAMES = ['urn:ogc:def:crs:OGC:1.3:CRS84', 'urn:ogc:def:crs:EPSG::4326', 'EPSG:4326', 'CRS84'];
+
+const AREA_TYPES = ['Polygon', 'MultiPolygon'];
+
+const isPosition = (p: unknown): p is Position =>
+  Array.isArray(p) && p.length >= 2 && p.every(n => typeof n === 'number' && Number.isFinite(n));
+
+function ringProblem(ring: unknown): string | null {
+  if (!Array.isArray(ring) || !ring.every(isPosition)) return 'a ring is not an array of [x, y] positions';
+  if (ring.length < 4) return `a ring has ${ring.length} position(s); at least 4 are needed`;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) return 'a ring is not closed (first and last positions differ)';
+  return null;
+}
+
+function polygonProblem(rings: unknown): string | null {
+  if (!Array.isArray(rings)) return 'a polygon is not an array of rings';
+  return rings.length === 0 ? 'a polygon has no rings' : rings.map(ringProblem).find(Boolean) ?? null;
+}
+
+// Why the structure of a GeoJSON geometry is unusable, or null when it is sound. Null geometries
+// are allowed by GeoJSON and reported with the other non-area types.
+function geometryProblem(geometry: unknown): string | null {
+  if (geometry === null || geometry === undefined) return null;
+  const g = geometry as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  if (g.type === 'GeometryCollection') {
+    return Array.isArray(g.geometries) ? g.geometries.map(geometryProblem).find(Boolean) ?? null : 'missing "geometries"';
+  }
+  if (typeof g.type !== 'string') return 'geometry without a type';
+  if (!AREA_TYPES.includes(g.type) && !['Point', 'MultiPoint', 'LineString', 'MultiLineString'].includes(g.type)) {
+    return `unknown geometry type "${g.type}"`;
+  }
+  if (!Array.isArray(g.coordinates)) return `${g.type} without "coordinates"`;
+  const c: unknown[] = g.coordinates;
+  switch (g.type) {
+    case 'Point':
+      return isPosition(c) ? null : 'a point is not an [x, y] position';
+    case 'MultiPoint':
+    case 'LineString':
+      return c.every(isPosition) ? null : `${g.type} coordinates are not [x, y] positions`;
+    case 'MultiLineString':
+      return c.every(line => Array.isArray(line) && line.every(isPosition)) ? null : 'MultiLineString coordinates are not [x, y] positions';
+    case 'Polygon':
+      return polygonProblem(c);
+    default:
+      return c.length === 0 ? 'a MultiPolygon has no polygons' : c.map(polygonProblem).find(Boolean) ?? null;
+  }
+}
+
+// Only called on geometries geometryProblem() accepts
+function positions(geometry: Geometry | null): Position[] {
+  if (!geometry) return [];
+  if (geometry.type === 'GeometryCollection') return geometry.geometries.flatMap(positions);
+  return turf.coordAll(geometry);
+}
+
+// Admin units must all be areas; in a built-up layer other geometries are only skipped
+export function parseAreaCollection(text: string, file: string, role: 'admin' | 'built-up'): Parsed<AreaCollection> {
+  const issues: UploadIssue[] = [];
+  const error = (message: string) => issues.push({ level: 'error', file, message });
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    return { value: null, issues };
+  }
+  const fc = json as { type?: string; features?: unknown; crs?: { properties?: { name?: string } } };
+  if (fc?.type !== 'FeatureCollection' || !Array.isArray(fc.features)) {
+    error('Expected a GeoJSON FeatureCollection');
+    return { value: null, issues };
+  }
+
+  const crs = fc.crs?.properties?.name;
+  if (crs && !WGS84_NAMES.includes(crs)) {
+    error(`Declares CRS ${crs}; reproject to WGS84 longitude/latitude (EPSG:4326) before uploading`);
+  }
+
+  const features = fc.features as AreaCollection['features'];
+  if (features.length === 0) error('Contains no features');
+
+  // Malformed geometries are reported and left out, so the checks below only see readable ones
+  const problems = features.map(f => geometryProblem(f?.geometry));
+  const malformed = problems.flatMap((problem, i) => (problem ? [`feature ${i + 1}: ${problem}`] : []));
+  if (malformed.length > 0) {
+    error(`${malformed.length} feature(s) with malformed geometry, e.g. ${malformed.slice(0, 3).join('; ')}`);
+  }
+  const readable = features.filter((_, i) => problems[i] === null);
+
+  const otherTypes = new Map<string, number>();
+  readable.forEach(f => {
+    const type = f?.geometry?.type ?? 'null';
+    if (!AREA_TYPES.includes(type)) otherTypes.set(type, (otherTypes.get(type) ?? 0) + 1);
+  });
+  otherTypes.forEach((count, type) => issues.push({
+    level: role === 'admin' ? 'error' : 'warning',
+    file,
+    message: `${count} feature(s) with ${type} geometry; only Polygon and MultiPolygon ${role === 'admin' ? 'are allowed' : 'are measured'}`,
+  }));
+
+  const coords = readable.flatMap(f => positions(f?.geometry ?? null));
+  const outOfRange = coords.filter(([x, y]) => !(Math.abs(x) <= 180 && Math.abs(y) <= 90));
+  if (outOfRange.length > 0) {
+    const [x, y] = outOfRange[0];
+    error(`${outOfRange.length} coordinate(s) outside longitude/latitude range, e.g. [${x}, ${y}]; the file looks projected`);
+  }
+
+  const value: AreaCollection = {
+    type: 'FeatureCollection',
+    features: readable.filter(f => AREA_TYPES.includes(f?.geometry?.type ?? '')),
+  };
+  return { value, issues };
+}
+
+const isYear = (s: string) => /^\d{4}$/.test(s.trim());
+
+// Built-up layers are matched to years by the first four-digit year in the file name
+export function yearFromFileName(name: string): number | null {
+  const match = name.match(/(?:^|\D)((?:19|20)\d{2})(?!\d)/);
+  return match ? Number(match[1]) : null;
+}
+
+/*
+ * Population tables are JSON in the format of public/data/populations.json, or CSV in one of two layouts:
+ *
+ * - long:  admin_code,year,population   (one row per unit and year)
+ * - wide:  admin_code,2000,2010,2020    (one row per unit, one column per year)
+ */
+export function parsePopulationTable(text: string, file: string): Parsed<PopulationObservations> {
+  const issues: UploadIssue[] = [];
+  const error = (message: string) => issues.push({ level: 'error', file, message });
+  const units = new Map<string, Record<string, number>>();
+
+  const add = (code: string, year: string, raw: unknown, where: string) => {
+    if (String(raw).trim() === '') return;
+    const population = typeof raw === 'number' ? raw : Number(String(raw).replace(/[\s_]/g, ''));
+    if (!Number.isFinite(population) || population < 0) {
+      error(`${where}: population "${raw}" is not a non-negative number`);
+      return;
+    }
+    if (!isYear(year)) {
+      error(`${where}: year "${year}" is not a four-digit year`);
+      return;
+    }
+    const observations = units.get(code) ?? {};
+    observations[year.trim()] = population;
+    units.set(code, observations);
+  };
+
+  if (file.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text).filter(r => r.some(c => c.trim() !== ''));
+    const columns = (header ?? []).map(h => h.trim().toLowerCase());
+    const codeCol = columns.indexOf(DEFAULT_CODE_PROPERTY);
+    if (codeCol < 0) {
+      error(`Missing "${DEFAULT_CODE_PROPERTY}" column`);
+      return { value: null, issues };
+    }
+    const yearCol = columns.indexOf('year');
+    const popCol = columns.indexOf('population');
+    const yearColumns = columns.flatMap((c, i) => (isYear(c) ? [i] : []));
+    if (yearCol >= 0 && popCol >= 0) {
+      rows.forEach((r, i) => add((r[codeCol] ?? '').trim(), r[yearCol] ?? '', r[popCol] ?? '', `Row ${i + 2}`));
+    } else if (yearColumns.length > 0) {
+      rows.forEach((r, i) => yearColumns.forEach(c => add((r[codeCol] ?? '').trim(), columns[c], r[c] ?? '', `Row ${i + 2}`)));
+    } else {
+      error('Expected either "year" and "population" columns or one column per year (e.g. 2000, 2010)');
+      return { value: null, issues };
+    }
+  } else {
+    let json: PopulationObservations;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      return { value: null, issues };
+    }
+    if (!Array.isArray(json?.units)) {
+      error('Expected { "units": [{ "admin_code": …, "population": { "<year>": … } }] }');
+      return { value: null, issues };
+    }
+    json.units.forEach((u, i) =>
+      Object.entries(u?.population ?? {}).forEach(([year, p]) => add(String(u.admin_code ?? ''), year, p, `units[${i}]`))
+    );
+  }
+
+  if (units.has('')) error('Some rows have no admin code');
+  return {
+    value: { units: Array.from(units, ([admin_code, population]) => ({ admin_code, population })) },
+    issues,
+  };
+}
+
+// Checks that the parts fit together: unique unit codes and years, and populations that cover the epochs
+export function validateInput(
+  input: AnalysisInput,
+  files: { admin: string; population: string }
+): UploadIssue[] {
+  const issues: UploadIssue[] = [];
+  const push = (level: UploadIssue['level'], file: string, message: string) => issues.push({ level, file, message });
+
+  const codes = input.admin.features.map(f => unitCode(f));
+  if (codes.some(c => c === '')) push('error', files.admin, `Every unit needs an "${DEFAULT_CODE_PROPERTY}" property`);
+  const duplicates = codes.filter((c, i) => c !== '' && codes.indexOf(c) !== i);
+  if (duplicates.length > 0) push('error', files.admin, `Duplicate admin codes: ${[...new Set(duplicates)].join(', ')}`);
+
+  const years = input.epochs.map(e => e.year);
+  if (years.length < 2) push('error', 'built-up', 'At least two built-up layers (epochs) are needed');
+  const repeated = years.filter((y, i) => years.indexOf(y) !== i);
+  if (repeated.length > 0) push('error', 'built-up', `More than one layer for ${[...new Set(repeated)].join(', ')}`);
+
+  const adminBbox = input.admin.features.length > 0 ? turf.bbox(input.admin) : null;
+  input.epochs.forEach(({ year, builtUp }) => {
+    if (!adminBbox || builtUp.features.length === 0) return;
+    const [minX, minY, maxX, maxY] = turf.bbox(builtUp);
+    if (minX > adminBbox[2] || maxX < adminBbox[0] || minY > adminBbox[3] || maxY < adminBbox[1]) {
+      push('warning', String(year), 'Built-up layer does not overlap the admin units');
+    }
+  });
+
+  const known = new Set(codes);
+  const populated = new Set(input.populations.units.map(u => u.admin_code));
+  const unknown = [...populated].filter(c => !known.has(c));
+  if (unknown.length > 0) push('warning', files.population, `Codes not in the admin units are ignored: ${unknown.join(', ')}`);
+  const missing = codes.filter(c => c !== '' && !populated.has(c));
+  if (missing.length > 0) push('warning', files.population, `No population for ${missing.join(', ')}; their PGR is left empty`);
+
+  // PGR needs a population at two epochs at least
+  const covered = years.filter(y => input.populations.units.some(u => populationAt(u.population, y) !== null));
+  if (years.length >= 2 && covered.length < 2) {
+    push('error', files.population, `Population observations cover fewer than two of the epochs (${years.join(', ')})`);
+  } else if (covered.length < years.length) {
+    const uncovered = years.filter(y => !covered.includes(y));
+    push('warning', files.population, `No population for ${uncovered.join(', ')}; only years between observations are interpolated`);
+  }
+
+  return issues;
+}
+
+export const hasErrors = (issues: UploadIssue[]) => issues.some(i => i.level === 'error');
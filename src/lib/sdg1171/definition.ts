@@ -0,0 +1,39 @@
+import type { IndicatorDefinition } from '@/lib/pipeline/engine';
+
+export const WALKING_DISTANCE_M = 400;
+
+// SDG 11.7.1 as pipeline definitions. (a) The share of the built-up area that is open public
+// space: the public_space_intersection of the crosswalk record clipped to the built-up mask.
+export const SDG_1171: IndicatorDefinition = {
+  indicator: '11.7.1',
+  label: 'Share of the built-up area that is open space for public use',
+  time: ['year'],
+  quantities: {
+    open: { join: 'public_space_intersection', input: 'publicSpace', with: 'builtUp' },
+    urb: { join: 'builtup_mask_overlay', input: 'builtUp' },
+  },
+  numerator: { op: 'value', quantity: 'open' },
+  denominator: { op: 'value', quantity: 'urb' },
+  scale: 100,
+};
+
+// (b) The share of population within walking distance of open public space. It needs a
+// population grid, which the crosswalk record does not list yet.
+export const SDG_1171_ACCESS: IndicatorDefinition = {
+  indicator: '11.7.1',
+  label: `Share of population within ${WALKING_DISTANCE_M} m of open public space`,
+  time: ['year'],
+  quantities: {
+    served: {
+      join: 'network_buffer_to_population_grid',
+      input: 'populationGrid',
+      with: 'publicSpaceParcels',
+      distance_m: WALKING_DISTANCE_M,
+      property: 'population',
+    },
+    pop: { join: 'grid_to_admin_overlay', input: 'populationGrid', property: 'population' },
+  },
+  numerator: { op: 'value', quantity: 'served' },
+  denominator: { op: 'value', quantity: 'pop' },
+  scale: 100,
+};
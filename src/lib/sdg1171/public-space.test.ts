@@ -0,0 +1,93 @@
+import * as turf from '@turf/turf';
+import { describe, expect, it } from 'vitest';
+import { geodesicArea } from '@/lib/area';
+import { registerSchema } from '@/lib/ladm/model';
+import { box } from '@/lib/test-geometry';
+import { analyseOpenSpace, midYear, openParcels, publicSpaceParcels, servedCells, walkingArea } from './public-space';
+
+const since = { beginLifespanVersion: '2012-01-01T00:00:00Z' };
+const parcel = (suID: string, landUse: string, geometry = box(0, 0, 0.001, 0.001).geometry) => ({ suID, label: suID, geometry, landUse, ...since });
+const baunit = (uID: string, suID: string) => ({ uID, name: uID, type: 'basicPropertyUnit', spatialUnits: [suID], ...since });
+const rrr = (rID: string, kind: string, type: string, baunit: string, extra: object = {}) => ({
+  rID, kind, type, party: 'P1', baunit, sources: ['S1'], ...since, ...extra,
+});
+
+// A park, a private plaza open to passers-by, a fenced public lot, a house, and a recreation area
+// whose public access ended in 2020
+const register = registerSchema.parse({
+  name: 'test',
+  parties: [{ pID: 'P1', name: 'City', type: 'nonNaturalPerson', ...since }],
+  sources: [{ sID: 'S1', kind: 'administrative', type: 'title', availabilityStatus: 'available', ...since }],
+  spatialUnits: [
+    parcel('park', 'public', box(0.008, 0, 0.012, 0.002).geometry),
+    parcel('plaza', 'commercial'),
+    parcel('fenced', 'public'),
+    parcel('house', 'residential'),
+    parcel('recreation', 'public'),
+  ],
+  baunits: ['park', 'plaza', 'fenced', 'house', 'recreation'].map(id => baunit(`U-${id}`, id)),
+  rrrs: [
+    rrr('R1', 'right', 'publicAccess', 'U-park', { description: 'City park' }),
+    rrr('R2', 'restriction', 'publicPassage', 'U-plaza'),
+    rrr('R3', 'right', 'ownership', 'U-fenced'),
+    rrr('R4', 'right', 'ownership', 'U-house'),
+    rrr('R5', 'right', 'publicAccess', 'U-recreation', { endLifespanVersion: '2020-09-01T00:00:00Z' }),
+  ],
+  spatialUnitGroups: [],
+});
+
+const access = (year: number) =>
+  Object.fromEntries(publicSpaceParcels(register, { valid: midYear(year) }).features.map(f => [f.properties!.suID, f.properties!.access]));
+
+describe('publicSpaceParcels', () => {
+  it('reads public access from rights and restrictions on the BAUnit', () => {
+    expect(access(2019)).toEqual({ park: 'right', plaza: 'restriction', fenced: 'closed', recreation: 'right' });
+  });
+
+  it('keeps public land whose access has ended as closed', () => {
+    expect(access(2021).recreation).toBe('closed');
+    expect(openParcels(publicSpaceParcels(register, { valid: midYear(2021) })).features.map(f => f.properties!.suID)).toEqual([
+      'park',
+      'plaza',
+    ]);
+  });
+
+  it('carries the label and description for the map', () => {
+    const park = publicSpaceParcels(register, { valid: midYear(2021) }).features[0];
+    expect(park.properties).toMatchObject({ suID: 'park', landUse: 'public', description: 'City park' });
+  });
+});
+
+describe('analyseOpenSpace', () => {
+  const admin = turf.featureCollection([box(0, 0, 0.02, 0.01, { admin_code: 'Z', name: 'Zone' })]);
+  const builtUp = { geometry: box(0, 0, 0.01, 0.01) };
+  const parks = turf.featureCollection([box(0.008, 0, 0.012, 0.002, { access: 'right' }), box(0.018, 0.008, 0.019, 0.009, { access: 'closed' })]);
+  const grid = turf.featureCollection([
+    box(0.0125, 0, 0.0135, 0.001, { population: 100 }), // next to the park
+    box(0.001, 0.008, 0.002, 0.009, { population: 300 }), // about 700 m away
+  ]);
+
+  it('measures open public space inside the built-up area only', () => {
+    const { units, total } = analyseOpenSpace(admin, builtUp, parks, grid, 2025);
+    const inside = geodesicArea(box(0.008, 0, 0.01, 0.002));
+    expect(Math.abs(units[0].open_m2! - inside) / inside).toBeLessThan(1e-6);
+    expect(units[0].openShare).toBeCloseTo((inside / geodesicArea(builtUp.geometry)) * 100, 6);
+    expect(total.open_m2).toBeCloseTo(units[0].open_m2!, 6);
+  });
+
+  it('counts population within walking distance of open parcels', () => {
+    const { units } = analyseOpenSpace(admin, builtUp, parks, grid, 2025);
+    expect([units[0].served, units[0].population, units[0].accessShare]).toEqual([100, 400, 25]);
+  });
+
+  it('gives zero shares without open public space', () => {
+    const closed = turf.featureCollection([parks.features[1]]);
+    const { units } = analyseOpenSpace(admin, builtUp, closed, grid, 2025);
+    expect([units[0].open_m2, units[0].openShare, units[0].served, units[0].accessShare]).toEqual([0, 0, 0, 0]);
+  });
+
+  it('flags the grid cells inside the walking area', () => {
+    const cells = servedCells(grid, walkingArea(parks));
+    expect(cells.features.map(f => f.properties!.served)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,119 @@
+import * as turf from '@turf/turf';
+import type { FeatureCollection, Polygon } from 'geojson';
+import type { LadmRegister } from '@/lib/ladm/model';
+import { snapshot, type AsOf } from '@/lib/ladm/time';
+import {
+  evaluate,
+  evaluateQuantities,
+  spanValues,
+  totalQuantities,
+  type PipelineInput,
+  type ZoneOptions,
+  type ZoneQuantities,
+} from '@/lib/pipeline/engine';
+import { buffer, dissolve, type AreaCollection, type Mask } from '@/lib/pipeline/steps';
+import { SDG_1171, SDG_1171_ACCESS, WALKING_DISTANCE_M } from './definition';
+
+// SDG 11.7.1: open public space from LADM parcels whose BAUnit carries a public-access RRR
+
+export type PublicAccess = 'right' | 'restriction' | 'closed';
+
+export const PUBLIC_ACCESS: { key: PublicAccess; label: string; color: string }[] = [
+  { key: 'right', label: 'Public-access right', color: '#16a34a' },
+  { key: 'restriction', label: 'Public passage on private land', color: '#0d9488' },
+  { key: 'closed', label: 'Public land, no public access', color: '#9ca3af' },
+];
+
+// Epochs are read as of mid-year, the usual reference date of population estimates
+export const midYear = (year: number) => `${year}-07-01T00:00:00Z`;
+
+// Parcels open to the public at `asOf`: a publicAccess right or a publicPassage restriction on
+// their BAUnit. Parcels in public land use without either come back as 'closed'.
+export function publicSpaceParcels(register: LadmRegister, asOf: AsOf): AreaCollection {
+  const snap = snapshot(register, asOf);
+  const access = new Map<string, { access: PublicAccess; description: string }>();
+  snap.rrrs.forEach(r => {
+    const kind = r.kind === 'right' && r.type === 'publicAccess' ? 'right' : r.kind === 'restriction' && r.type === 'publicPassage' ? 'restriction' : null;
+    if (kind) access.set(r.baunit, { access: kind, description: r.description ?? '' });
+  });
+
+  const features = snap.spatialUnits.flatMap(su => {
+    const found = snap.baunits.filter(u => u.spatialUnits.includes(su.suID)).map(u => access.get(u.uID)).find(Boolean);
+    if (!found && su.landUse !== 'public') return [];
+    return [
+      turf.feature(su.geometry, {
+        suID: su.suID,
+        label: su.label,
+        landUse: su.landUse ?? 'unknown',
+        access: found?.access ?? 'closed',
+        description: found?.description ?? '',
+      }),
+    ];
+  });
+  return turf.featureCollection(features);
+}
+
+export const openParcels = (parcels: AreaCollection): AreaCollection =>
+  turf.featureCollection(parcels.features.filter(f => f.properties?.access !== 'closed'));
+
+// Area within walking distance (straight line) of open public space
+export const walkingArea = (parcels: AreaCollection): Mask => buffer(openParcels(parcels), WALKING_DISTANCE_M);
+
+// Grid cells flagged by whether their centroid is within walking distance
+export function servedCells(grid: FeatureCollection<Polygon>, walking: Mask): FeatureCollection<Polygon> {
+  return turf.featureCollection(
+    grid.features.map(cell => ({
+      ...cell,
+      properties: {
+        ...cell.properties,
+        served: walking.geometry !== null && turf.booleanPointInPolygon(turf.centroid(cell), walking.geometry),
+      },
+    }))
+  );
+}
+
+export type OpenSpaceResult = {
+  code: string;
+  name: string;
+  builtUp_m2: number | null;
+  open_m2: number | null; // open public space inside the built-up area
+  openShare: number | null; // %
+  population: number | null;
+  served: number | null; // people within walking distance
+  accessShare: number | null; // %
+};
+
+// Both parts of the indicator per admin unit and for all units, from the definitions
+export function analyseOpenSpace(
+  admin: AreaCollection,
+  builtUp: Mask,
+  parcels: AreaCollection,
+  grid: FeatureCollection,
+  year: number,
+  options: ZoneOptions = {}
+): { units: OpenSpaceResult[]; total: OpenSpaceResult } {
+  const open = openParcels(parcels);
+  const inputs: Record<string, PipelineInput> = {
+    builtUp: { kind: 'mask', epochs: new Map([[year, builtUp]]) },
+    publicSpace: { kind: 'mask', epochs: new Map([[year, { geometry: dissolve(open) }]]) },
+    publicSpaceParcels: { kind: 'features', epochs: new Map([[year, open]]) },
+    populationGrid: { kind: 'features', epochs: new Map([[year, grid]]) },
+  };
+  const share = evaluateQuantities(SDG_1171, admin, inputs, [year], options);
+  const access = evaluateQuantities(SDG_1171_ACCESS, admin, inputs, [year], options);
+
+  const result = (s: ZoneQuantities, a: ZoneQuantities): OpenSpaceResult => ({
+    code: s.code,
+    name: s.name,
+    builtUp_m2: s.values.urb[0],
+    open_m2: s.values.open[0],
+    openShare: evaluate(SDG_1171, spanValues(s, [year], year, year), year, year).value,
+    population: a.values.pop[0],
+    served: a.values.served[0],
+    accessShare: evaluate(SDG_1171_ACCESS, spanValues(a, [year], year, year), year, year).value,
+  });
+  return {
+    units: share.map((s, i) => result(s, access[i])),
+    total: result(totalQuantities(share), totalQuantities(access)),
+  };
+}
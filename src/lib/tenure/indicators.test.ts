@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { partySchema, registerSchema } from '@/lib/ladm/model';
+import { indicator142, indicator5a1, isAdult, parcelStatus } from './indicators';
+
+const since = { beginLifespanVersion: '2012-01-01T00:00:00Z' };
+const square = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] };
+
+const parcel = (suID: string, landUse: string) => ({ suID, label: suID, geometry: square, landUse, ...since });
+const baunit = (uID: string, suID: string) => ({ uID, name: uID, type: 'basicPropertyUnit', spatialUnits: [suID], ...since });
+const right = (rID: string, party: string, type: string, baunit: string, source: string) => ({
+  rID, kind: 'right', type, party, baunit, sources: [source], ...since,
+});
+
+// P1 farmer with a titled field; P2 owns a house whose deed was destroyed and leases part of the
+// field under a title accepted only in 2022; P3 is a child, P4 a company, P5 a farmer without land
+const register = registerSchema.parse({
+  name: 'test',
+  parties: [
+    { pID: 'P1', name: 'A', type: 'naturalPerson', sex: 'female', birthDate: '1980-01-01', residence: 'D01', agricultural: true, ...since },
+    { pID: 'P2', name: 'B', type: 'naturalPerson', sex: 'male', birthDate: '1985-01-01', residence: 'D02', ...since },
+    { pID: 'P3', name: 'C', type: 'naturalPerson', sex: 'female', birthDate: '2015-01-01', residence: 'D01', ...since },
+    { pID: 'P4', name: 'D', type: 'nonNaturalPerson', ...since },
+    { pID: 'P5', name: 'E', type: 'naturalPerson', sex: 'male', birthDate: '1970-01-01', residence: 'D02', agricultural: true, ...since },
+  ],
+  sources: [
+    { sID: 'S1', kind: 'administrative', type: 'title', availabilityStatus: 'available', acceptance: '2010-01-01T00:00:00Z', ...since },
+    { sID: 'S2', kind: 'administrative', type: 'deed', availabilityStatus: 'archiveDestroyed', acceptance: '2010-01-01T00:00:00Z', ...since },
+    { sID: 'S3', kind: 'administrative', type: 'title', availabilityStatus: 'available', acceptance: '2022-01-01T00:00:00Z', ...since },
+  ],
+  spatialUnits: [parcel('SU1', 'agricultural'), parcel('SU2', 'residential'), parcel('SU3', 'commercial'), parcel('SU4', 'residential')],
+  baunits: [baunit('U1', 'SU1'), baunit('U2', 'SU2'), baunit('U3', 'SU3'), baunit('U4', 'SU4')],
+  rrrs: [
+    right('R1', 'P1', 'ownership', 'U1', 'S1'),
+    right('R2', 'P2', 'ownership', 'U2', 'S2'),
+    right('R3', 'P2', 'lease', 'U1', 'S3'),
+    right('R4', 'P4', 'ownership', 'U3', 'S1'),
+  ],
+  spatialUnitGroups: [
+    { sugID: 'G1', name: 'North', label: 'D01', hierarchyLevel: 1, spatialUnits: ['SU1', 'SU4'], ...since },
+    { sugID: 'G2', name: 'South', label: 'D02', hierarchyLevel: 1, spatialUnits: ['SU2', 'SU3'], ...since },
+  ],
+});
+
+const in2020 = { valid: '2020-01-01T00:00:00Z' };
+const in2023 = { valid: '2023-01-01T00:00:00Z' };
+
+describe('isAdult', () => {
+  const person = partySchema.parse({ pID: 'P', name: 'P', type: 'naturalPerson', birthDate: '2002-06-15', ...since });
+
+  it('counts natural persons from their 18th birthday', () => {
+    expect(isAdult(person, '2020-06-14T23:59:59Z')).toBe(false);
+    expect(isAdult(person, '2020-06-15T00:00:00Z')).toBe(true);
+  });
+
+  it('never counts other parties or persons without a birth date', () => {
+    expect(isAdult({ ...person, type: 'nonNaturalPerson' }, '2020-06-15T00:00:00Z')).toBe(false);
+    expect(isAdult({ ...person, birthDate: undefined }, '2020-06-15T00:00:00Z')).toBe(false);
+  });
+});
+
+describe('indicator142', () => {
+  it('counts adults, holders and holders of a documented right', () => {
+    const result = indicator142(register, in2020);
+    expect(result.total).toEqual({ adults: 3, holders: 2, documented: 1 });
+    expect(result.bySex.female).toEqual({ adults: 1, holders: 1, documented: 1 });
+    expect(result.bySex.male).toEqual({ adults: 2, holders: 1, documented: 0 });
+    expect(result.bySex.unknown).toEqual({ adults: 0, holders: 0, documented: 0 });
+  });
+
+  it('breaks down by residence and tenure type', () => {
+    const result = indicator142(register, in2020);
+    expect(result.byUnit).toEqual([
+      { code: 'D01', name: 'North', adults: 1, holders: 1, documented: 1 },
+      { code: 'D02', name: 'South', adults: 2, holders: 1, documented: 0 },
+    ]);
+    expect(result.byTenure).toEqual([
+      { type: 'ownership', holders: 2, documented: 1, women: 1 },
+      { type: 'lease', holders: 1, documented: 0, women: 0 },
+    ]);
+  });
+
+  it('counts a document once it has been accepted', () => {
+    expect(indicator142(register, in2023).total.documented).toBe(2);
+  });
+});
+
+describe('indicator5a1', () => {
+  it('counts agricultural households and documented rights on agricultural land', () => {
+    const result = indicator5a1(register, in2023);
+    expect(result.total).toEqual({ adults: 2, holders: 1, documented: 1 });
+    expect([result.bearers, result.women]).toEqual([1, 1]);
+    expect(result.byTenure).toEqual([{ type: 'ownership', holders: 1, documented: 1, women: 1 }]);
+  });
+});
+
+describe('parcelStatus', () => {
+  const status = (asOf: { valid: string }) => Object.fromEntries(parcelStatus(register, asOf).map(p => [p.suID, p.status]));
+
+  it('classifies parcels by how many of their current rights are documented', () => {
+    expect(status(in2020)).toEqual({ SU1: 'partly', SU2: 'undocumented', SU3: 'documented', SU4: 'none' });
+    expect(status(in2023).SU1).toBe('documented');
+  });
+
+  it('has no parcels before they were registered', () => {
+    expect(parcelStatus(register, { valid: '2011-01-01T00:00:00Z' })).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+import type { RightType, SexType } from '@/lib/ladm/codelists';
+import type { LA_Party, LA_Right, LA_Source, LadmRegister } from '@/lib/ladm/model';
+import { snapshot, type AsOf } from '@/lib/ladm/time';
+
+// SDG 1.4.2 and 5.a.1 from LADM records: parties joined to their rights (rrrParty), rights to
+// BAUnits (unitRrr), BAUnits to parcels (suBaunit) and rights to their documents (rrrSource).
+// Each computation works on a snapshot, so results for a date stay reproducible (see ladm/time.ts).
+
+export const ADULT_AGE = 18;
+
+export function isAdult(party: LA_Party, asOf: string): boolean {
+  if (party.type !== 'naturalPerson' || !party.birthDate) return false;
+  const adultFrom = new Date(party.birthDate);
+  adultFrom.setFullYear(adultFrom.getFullYear() + ADULT_AGE);
+  return adultFrom.getTime() <= Date.parse(asOf);
+}
+
+// Legally documented: backed by an administrative source that is accepted and available
+export const isDocumented = (right: LA_Right, sources: Map<string, LA_Source>, asOf: string) =>
+  right.sources.some(id => {
+    const source = sources.get(id);
+    return (
+      source?.kind === 'administrative' &&
+      source.availabilityStatus === 'available' &&
+      source.acceptance !== undefined &&
+      Date.parse(source.acceptance) <= Date.parse(asOf)
+    );
+  });
+
+export type HeldRight = {
+  right: LA_Right;
+  documented: boolean;
+  agricultural: boolean; // on a BAUnit with an agricultural parcel
+};
+
+export type AdultTenure = { party: LA_Party; rights: HeldRight[] };
+
+// Adults (natural persons) valid at `asOf` with the rights they hold at that time
+export function adultTenure(register: LadmRegister, asOf: AsOf): AdultTenure[] {
+  const snap = snapshot(register, asOf);
+  const sources = new Map(snap.sources.map(s => [s.sID, s]));
+  const landUse = new Map(snap.spatialUnits.map(s => [s.suID, s.landUse]));
+  const agricultural = new Set(
+    snap.baunits.filter(u => u.spatialUnits.some(s => landUse.get(s) === 'agricultural')).map(u => u.uID)
+  );
+  const rights = snap.rrrs.filter((r): r is LA_Right => r.kind === 'right');
+
+  return snap.parties
+    .filter(p => isAdult(p, asOf.valid))
+    .map(party => ({
+      party,
+      rights: rights
+        .filter(r => r.party === party.pID)
+        .map(right => ({
+          right,
+          documented: isDocumented(right, sources, asOf.valid),
+          agricultural: agricultural.has(right.baunit),
+        })),
+    }));
+}
+
+export type Counts = {
+  adults: number; // denominator
+  holders: number; // hold at least one right
+  documented: number; // hold at least one legally documented right
+};
+
+export type SexKey = SexType | 'unknown';
+
+export const SEX_KEYS: SexKey[] = ['female', 'male', 'unknown'];
+
+const emptyCounts = (): Counts => ({ adults: 0, holders: 0, documented: 0 });
+
+function count(people: AdultTenure[], pick: (r: HeldRight) => boolean = () => true): Counts {
+  return people.reduce((c, { rights }) => {
+    const held = rights.filter(pick);
+    c.adults += 1;
+    if (held.length > 0) c.holders += 1;
+    if (held.some(r => r.documented)) c.documented += 1;
+    return c;
+  }, emptyCounts());
+}
+
+const sexOf = (p: LA_Party): SexKey => p.sex ?? 'unknown';
+
+function bySex(people: AdultTenure[], pick?: (r: HeldRight) => boolean): Record<SexKey, Counts> {
+  return Object.fromEntries(
+    SEX_KEYS.map(sex => [sex, count(people.filter(p => sexOf(p.party) === sex), pick)])
+  ) as Record<SexKey, Counts>;
+}
+
+export type TenureTypeCounts = {
+  type: RightType;
+  holders: number;
+  documented: number;
+  women: number;
+};
+
+function byTenure(people: AdultTenure[], pick: (r: HeldRight) => boolean = () => true): TenureTypeCounts[] {
+  const types = new Map<RightType, TenureTypeCounts>();
+  people.forEach(({ party, rights }) => {
+    const held = rights.filter(pick);
+    new Set(held.map(r => r.right.type)).forEach(type => {
+      const row = types.get(type) ?? { type, holders: 0, documented: 0, women: 0 };
+      row.holders += 1;
+      if (held.some(r => r.right.type === type && r.documented)) row.documented += 1;
+      if (party.sex === 'female') row.women += 1;
+      types.set(type, row);
+    });
+  });
+  return Array.from(types.values()).sort((a, b) => b.holders - a.holders);
+}
+
+export type Indicator142 = {
+  asOf: AsOf;
+  total: Counts;
+  bySex: Record<SexKey, Counts>;
+  byUnit: (Counts & { code: string; name: string })[]; // by residence
+  byTenure: TenureTypeCounts[];
+};
+
+// 1.4.2 (a): share of adults holding a legally documented right to land
+export function indicator142(register: LadmRegister, asOf: AsOf): Indicator142 {
+  const people = adultTenure(register, asOf);
+  const unitNames = new Map(register.spatialUnitGroups.map(g => [g.label, g.name]));
+  const codes = Array.from(new Set(people.map(p => p.party.residence ?? ''))).sort();
+  return {
+    asOf,
+    total: count(people),
+    bySex: bySex(people),
+    byUnit: codes.map(code => ({
+      code: code || '—',
+      name: unitNames.get(code) ?? (code ? code : 'Unknown residence'),
+      ...count(people.filter(p => (p.party.residence ?? '') === code)),
+    })),
+    byTenure: byTenure(people),
+  };
+}
+
+export type Indicator5a1 = {
+  asOf: AsOf;
+  total: Counts; // agricultural population
+  bySex: Record<SexKey, Counts>;
+  bearers: number; // documented rights-bearers of agricultural land
+  women: number;
+  byTenure: TenureTypeCounts[];
+};
+
+// 5.a.1 (a): share of the agricultural population with ownership or secure (documented) rights
+// over agricultural land; (b): share of women among those rights-bearers, by tenure type
+export function indicator5a1(register: LadmRegister, asOf: AsOf): Indicator5a1 {
+  const people = adultTenure(register, asOf).filter(p => p.party.agricultural);
+  const onAgriLand = (r: HeldRight) => r.agricultural;
+  const secure = (r: HeldRight) => r.agricultural && r.documented;
+  const bearers = people.filter(p => p.rights.some(secure));
+  return {
+    asOf,
+    total: count(people, onAgriLand),
+    bySex: bySex(people, onAgriLand),
+    bearers: bearers.length,
+    women: bearers.filter(p => p.party.sex === 'female').length,
+    byTenure: byTenure(people, secure),
+  };
+}
+
+export type ParcelStatus = 'documented' | 'partly' | 'undocumented' | 'none';
+
+export const PARCEL_STATUS: { key: ParcelStatus; label: string; color: string }[] = [
+  { key: 'documented', label: 'All rights documented', color: '#16a34a' },
+  { key: 'partly', label: 'Partly documented', color: '#f59e0b' },
+  { key: 'undocumented', label: 'No documented right', color: '#dc2626' },
+  { key: 'none', label: 'No current right', color: '#9ca3af' },
+];
+
+export type ParcelSummary = {
+  suID: string;
+  label: string;
+  landUse: string;
+  status: ParcelStatus;
+  rights: RightType[];
+};
+
+// Documentation status of the current rights on each parcel, for the map
+export function parcelStatus(register: LadmRegister, asOf: AsOf): ParcelSummary[] {
+  const snap = snapshot(register, asOf);
+  const sources = new Map(snap.sources.map(s => [s.sID, s]));
+  const rights = snap.rrrs.filter((r): r is LA_Right => r.kind === 'right');
+  return snap.spatialUnits.map(su => {
+    const baunits = new Set(snap.baunits.filter(u => u.spatialUnits.includes(su.suID)).map(u => u.uID));
+    const held = rights.filter(r => baunits.has(r.baunit));
+    const documented = held.filter(r => isDocumented(r, sources, asOf.valid)).length;
+    const status: ParcelStatus =
+      held.length === 0 ? 'none' : documented === held.length ? 'documented' : documented > 0 ? 'partly' : 'undocumented';
+    return { suID: su.suID, label: su.label, landUse: su.landUse ?? 'unknown', status, rights: held.map(r => r.type) };
+  });
+}
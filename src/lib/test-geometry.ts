@@ -0,0 +1,10 @@
+import * as turf from '@turf/turf';
+
+// Geometry fixtures shared by the unit tests
+
+// Axis-aligned rectangle from degree bounds
+export const box = (minX: number, minY: number, maxX: number, maxY: number, properties: Record<string, unknown> = {}) =>
+  turf.bboxPolygon([minX, minY, maxX, maxY], { properties });
+
+// Relative difference of a computed value from the expected one; a missing value never matches
+export const relative = (a: number | null, b: number) => (a === null ? Infinity : Math.abs(a - b) / b);